@@ -1,10 +1,62 @@
-import React, { useState, useCallback } from "react";
-import { LayoutGrid, Sparkles, X, MessageCircle } from "lucide-react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import {
+  LayoutGrid,
+  Sparkles,
+  MessageCircle,
+  History,
+  Loader2,
+  RefreshCw,
+  FolderOpen,
+  ShoppingCart,
+} from "lucide-react";
 import ImageUpload from "./components/ImageUpload";
 import AnalysisDashboard from "./components/AnalysisDashboard";
+import ExportMenu from "./components/ExportMenu";
 import ChatInterface from "./components/ChatInterface";
+import HistoryPanel from "./components/HistoryPanel";
+import RoomPicker from "./components/RoomPicker";
+import RoomProgress from "./components/RoomProgress";
+import PhotoGallery from "./components/PhotoGallery";
+import ErrorBanner from "./components/ErrorBanner";
+import SharedPlanView from "./components/SharedPlanView";
+import ShoppingList from "./components/ShoppingList";
+import { useChatThreads } from "./hooks/useChatThreads";
 import { analyzeRoomImage } from "./services/geminiService";
-import { RoomAnalysis } from "./types";
+import {
+  cacheAnalysis,
+  getAnalysisCacheKey,
+  getCachedAnalysis,
+  linkCachedSession,
+} from "./services/analysisCache";
+import { toDataUrl } from "./services/imagePreprocessing";
+import { AIServiceError, toAIServiceError } from "./services/errors";
+import {
+  addFocusSession,
+  createRoom,
+  createSession,
+  getSession,
+  listRooms,
+  updateSession,
+} from "./services/historyStore";
+import {
+  clearSharedPlanHash,
+  hasSharedPlanHash,
+  parseSharedPlan,
+  readSharedPlanFromHash,
+  SharedPlanError,
+} from "./services/planShare";
+import { getShoppingCurrency } from "./services/shoppingList";
+import {
+  ActionItem,
+  AnalysisSession,
+  AnalysisStage,
+  ChatThread,
+  FocusSessionRecord,
+  Room,
+  RoomAnalysis,
+  SharedPlan,
+  UploadedImage,
+} from "./types";
 
 // ============================================================================
 // КОНСТАНТЫ
@@ -26,53 +78,402 @@ const FEATURES = [
   },
 ] as const;
 
+/** Экраны приложения */
+type AppView = "main" | "history" | "shopping";
+
+/** Параметры запуска анализа */
+interface AnalyzeOptions {
+  /** Запросить новый анализ, даже если эти фото уже анализировались */
+  reanalyze?: boolean;
+}
+
+/** Сообщения об этапах анализа */
+const ANALYSIS_STAGE_MESSAGES: Record<AnalysisStage, string> = {
+  request: "Отправляем фото модели...",
+  retry: "Сервис не ответил, пробуем еще раз...",
+  repair: "Уточняем ответ модели...",
+  validate: "Проверяем план действий...",
+};
+
+/** Сообщения во время ожидания ответа модели (секунд с начала этапа → текст) */
+const WAITING_MESSAGES = [
+  { after: 3, text: "Ищем зоны беспорядка..." },
+  { after: 10, text: "Разбираем вещи по категориям..." },
+  { after: 20, text: "Составляем план действий..." },
+  { after: 40, text: "Почти готово: подробные фото анализируются дольше..." },
+] as const;
+
 // ============================================================================
 // КОМПОНЕНТ
 // ============================================================================
 
 function App() {
   // Состояние приложения
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImages, setSelectedImages] = useState<UploadedImage[]>([]);
   const [analysis, setAnalysis] = useState<RoomAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage>("request");
+  // Результат взят из кэша: эти фото уже анализировались
+  const [isFromCache, setIsFromCache] = useState(false);
   const [showChat, setShowChat] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AIServiceError | null>(null);
+  // Фото неудачного анализа — для повтора из баннера ошибки
+  const [failedImages, setFailedImages] = useState<UploadedImage[]>([]);
+  const [view, setView] = useState<AppView>("main");
+  // План, открытый по ссылке или из файла (только просмотр)
+  const [sharedPlan, setSharedPlan] = useState<SharedPlan | null>(null);
+
+  // Текущая сессия в истории и ее сохраненные ветки переписки
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [savedThreads, setSavedThreads] = useState<ChatThread[]>([]);
+
+  // Комнаты: выбранная комната сохраняется и для следующих загрузок
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomId, setRoomId] = useState<string | null>(null);
+
+  // Текущий запрос анализа: отменяется при сбросе, ответ отмененного запроса игнорируется
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  // Отмена анализа при размонтировании
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
+
+  // Загрузка списка комнат
+  useEffect(() => {
+    listRooms()
+      .then(setRooms)
+      .catch((storageError) => console.error("Не удалось загрузить комнаты:", storageError));
+  }, []);
 
   /**
-   * Обработка выбора изображения и запуск анализа
+   * Обработка выбора фото и запуск анализа.
+   * Уже анализировавшиеся фото получают сохраненный результат без запроса к модели:
+   * открывается их сессия из истории, новая создается только после запроса к модели
    */
-  const handleImageSelect = useCallback(async (base64: string) => {
-    setSelectedImage(base64);
+  const handleImagesSelect = useCallback(async (
+    images: UploadedImage[],
+    { reanalyze = false }: AnalyzeOptions = {}
+  ) => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    // Запрос актуален, пока его не отменили и не сменили новым
+    const isCurrent = () => analysisControllerRef.current === controller;
+
+    setSelectedImages(images);
     setIsAnalyzing(true);
+    setAnalysisStage("request");
     setError(null);
     setAnalysis(null);
+    setIsFromCache(false);
+    setSessionId(null);
+    setSavedThreads([]);
 
     try {
-      const result = await analyzeRoomImage(base64);
+      // Кэш недоступен (нет Web Crypto или IndexedDB) — просто анализируем заново
+      const cacheKey = await getAnalysisCacheKey(images).catch((cacheError) => {
+        console.warn("Кэш анализов недоступен:", cacheError);
+        return null;
+      });
+      const cached =
+        cacheKey && !reanalyze
+          ? await getCachedAnalysis(cacheKey).catch((cacheError) => {
+              console.error("Не удалось прочитать кэш анализов:", cacheError);
+              return null;
+            })
+          : null;
+      // Те же фото уже есть в истории — открываем их сессию с отметками и перепиской,
+      // а не добавляем в историю копию
+      const cachedSession = cached?.sessionId
+        ? await getSession(cached.sessionId).catch((storageError) => {
+            console.error("Не удалось открыть сессию из кэша:", storageError);
+            return null;
+          })
+        : null;
+      if (!isCurrent()) return;
+
+      if (cachedSession) {
+        setAnalysis(cachedSession.analysis);
+        setSessionId(cachedSession.id);
+        setSavedThreads(cachedSession.threads);
+        setRoomId(cachedSession.roomId ?? null);
+        setIsFromCache(true);
+        return;
+      }
+
+      const result =
+        cached?.analysis ??
+        (await analyzeRoomImage(images, {
+          signal: controller.signal,
+          currency: getShoppingCurrency(),
+          onStageChange: (stage) => {
+            if (isCurrent()) setAnalysisStage(stage);
+          },
+        }));
+      if (!isCurrent()) return;
+
+      // Сохраняем в историю; ошибка хранилища не должна мешать показу результата
+      let session: AnalysisSession | null = null;
+      try {
+        session = await createSession(images, result, roomId ?? undefined);
+      } catch (storageError) {
+        console.error("Не удалось сохранить анализ в историю:", storageError);
+      }
+
+      // Кэш запоминает сессию: следующая загрузка тех же фото откроет ее
+      const logCacheError = (cacheError: unknown) =>
+        console.error("Не удалось сохранить анализ в кэш:", cacheError);
+      if (cacheKey && !cached) {
+        cacheAnalysis(cacheKey, result, session?.id).catch(logCacheError);
+      } else if (cacheKey && session) {
+        linkCachedSession(cacheKey, session.id).catch(logCacheError);
+      }
+      if (!isCurrent()) return;
+
+      if (session) setSessionId(session.id);
+
       setAnalysis(result);
+      setIsFromCache(!!cached);
     } catch (err) {
+      if (!isCurrent()) return;
       console.error("Ошибка анализа:", err);
-      const errorMessage =
-        err instanceof Error
-          ? err.message
-          : "Не удалось проанализировать изображение. Попробуйте с более четким фото.";
-      setError(errorMessage);
-      setSelectedImage(null);
+      setError(toAIServiceError(err, "Не удалось проанализировать изображение."));
+      setFailedImages(images);
+      setSelectedImages([]);
     } finally {
-      setIsAnalyzing(false);
+      if (isCurrent()) {
+        analysisControllerRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
+  }, [roomId]);
+
+  /**
+   * Повторный анализ открытых фото в обход кэша
+   */
+  const reanalyze = useCallback(() => {
+    handleImagesSelect(selectedImages, { reanalyze: true });
+  }, [handleImagesSelect, selectedImages]);
+
+  /**
+   * Отмена текущего анализа: его результат или ошибка больше не попадут в состояние
+   */
+  const abortAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setIsAnalyzing(false);
   }, []);
 
+  /**
+   * Кнопка «Отменить» во время анализа — возврат к загрузке фото
+   */
+  const cancelAnalysis = useCallback(() => {
+    abortAnalysis();
+    setSelectedImages([]);
+  }, [abortAnalysis]);
+
   /**
    * Сброс состояния приложения
    */
   const resetApp = useCallback(() => {
-    setSelectedImage(null);
+    abortAnalysis();
+    clearSharedPlanHash();
+    setSharedPlan(null);
+    setSelectedImages([]);
+    setAnalysis(null);
+    setIsFromCache(false);
+    setShowChat(false);
+    setError(null);
+    setSessionId(null);
+    setSavedThreads([]);
+    setView("main");
+  }, [abortAnalysis]);
+
+  /**
+   * Открытие сохраненной сессии из истории
+   */
+  const openSession = useCallback((session: AnalysisSession) => {
+    abortAnalysis();
+    clearSharedPlanHash();
+    setSharedPlan(null);
+    setSelectedImages(session.images);
+    setAnalysis(session.analysis);
+    setIsFromCache(false);
+    setSessionId(session.id);
+    setSavedThreads(session.threads);
+    setRoomId(session.roomId ?? null);
+    setShowChat(false);
+    setError(null);
+    setView("main");
+  }, [abortAnalysis]);
+
+  /**
+   * Открытие общего плана: текущий анализ закрывается, план показывается только для просмотра
+   */
+  const openSharedPlan = useCallback((plan: SharedPlan) => {
+    abortAnalysis();
+    setSelectedImages([]);
     setAnalysis(null);
+    setIsFromCache(false);
+    setSessionId(null);
+    setSavedThreads([]);
     setShowChat(false);
     setError(null);
+    setFailedImages([]);
+    setSharedPlan(plan);
+    setView("main");
+  }, [abortAnalysis]);
+
+  /**
+   * Ошибка чтения общего плана показывается в баннере ошибки.
+   * Фото прошлого неудачного анализа сбрасываются: повтор в баннере относится не к ним
+   */
+  const handleSharedPlanError = useCallback((shareError: unknown) => {
+    console.error("Не удалось открыть общий план:", shareError);
+    const message =
+      shareError instanceof SharedPlanError ? shareError.message : "Не удалось открыть план.";
+    setError(new AIServiceError("unknown", message, { cause: shareError }));
+    setFailedImages([]);
+  }, []);
+
+  /**
+   * Открытие файла .tidy.json
+   */
+  const openSharedPlanFile = useCallback(
+    async (file: File) => {
+      try {
+        openSharedPlan(parseSharedPlan(await file.text()));
+      } catch (shareError) {
+        handleSharedPlanError(shareError);
+      }
+    },
+    [openSharedPlan, handleSharedPlanError]
+  );
+
+  /**
+   * Закрытие общего плана
+   */
+  const closeSharedPlan = useCallback(() => {
+    clearSharedPlanHash();
+    setSharedPlan(null);
+  }, []);
+
+  // План по ссылке: при загрузке страницы и при переходе по другой ссылке в той же вкладке
+  useEffect(() => {
+    let isActive = true;
+
+    const readHash = () => {
+      const { hash } = window.location;
+      if (!hasSharedPlanHash(hash)) return;
+      readSharedPlanFromHash(hash)
+        .then((plan) => {
+          if (isActive) openSharedPlan(plan);
+        })
+        .catch((shareError) => {
+          if (isActive) handleSharedPlanError(shareError);
+        });
+    };
+
+    readHash();
+    window.addEventListener("hashchange", readHash);
+    return () => {
+      isActive = false;
+      window.removeEventListener("hashchange", readHash);
+    };
+  }, [openSharedPlan, handleSharedPlanError]);
+
+  /**
+   * Удаленная сессия больше не связана с открытым анализом
+   */
+  const handleSessionDeleted = useCallback((id: string) => {
+    setSessionId((current) => (current === id ? null : current));
+  }, []);
+
+  /**
+   * Сохранение веток переписки в историю
+   */
+  const handleThreadsChange = useCallback(
+    (threads: ChatThread[]) => {
+      // Актуальные ветки нужны и при возврате к анализу с экрана истории
+      setSavedThreads(threads);
+      if (!sessionId) return;
+      updateSession(sessionId, { threads }).catch((storageError) => {
+        console.error("Не удалось сохранить переписку:", storageError);
+      });
+    },
+    [sessionId]
+  );
+
+  /**
+   * Изменение чек-листа: обновляем анализ и сохраняем его в историю
+   */
+  const handleActionItemsChange = useCallback(
+    (actionItems: ActionItem[]) => {
+      if (!analysis) return;
+
+      const updated = { ...analysis, actionItems };
+      setAnalysis(updated);
+
+      if (!sessionId) return;
+      updateSession(sessionId, { analysis: updated }).catch((storageError) => {
+        console.error("Не удалось сохранить план:", storageError);
+      });
+    },
+    [analysis, sessionId]
+  );
+
+  /**
+   * Сессия режима фокуса: сохраняем в историю анализа
+   */
+  const handleFocusSessionEnd = useCallback(
+    (record: FocusSessionRecord) => {
+      if (!sessionId) return;
+      addFocusSession(sessionId, record).catch((storageError) => {
+        console.error("Не удалось сохранить сессию фокуса:", storageError);
+      });
+    },
+    [sessionId]
+  );
+
+  /**
+   * Создание новой комнаты
+   */
+  const handleCreateRoom = useCallback(async (name: string) => {
+    const room = await createRoom(name);
+    setRooms((prev) => [...prev, room].sort((a, b) => a.name.localeCompare(b.name, "ru")));
+    return room;
+  }, []);
+
+  /**
+   * Выбор комнаты: для открытого анализа — перенос в эту комнату
+   */
+  const handleRoomChange = useCallback(
+    (nextRoomId: string | null) => {
+      setRoomId(nextRoomId);
+      if (!sessionId) return;
+      updateSession(sessionId, { roomId: nextRoomId ?? undefined }).catch((storageError) => {
+        console.error("Не удалось изменить комнату анализа:", storageError);
+      });
+    },
+    [sessionId]
+  );
+
+  /**
+   * Переключение экрана истории или списка покупок (повторное нажатие — возврат к анализу)
+   */
+  const toggleView = useCallback((target: Exclude<AppView, "main">) => {
+    setView((prev) => (prev === target ? "main" : target));
   }, []);
 
+  /**
+   * Покупка отмечена в списке покупок: открытый анализ получает актуальный план
+   */
+  const handleShoppingSessionUpdated = useCallback(
+    (session: AnalysisSession) => {
+      if (session.id === sessionId) setAnalysis(session.analysis);
+    },
+    [sessionId]
+  );
+
   /**
    * Очистка ошибки
    */
@@ -80,6 +481,13 @@ function App() {
     setError(null);
   }, []);
 
+  /**
+   * Повтор анализа после временной ошибки
+   */
+  const retryAnalysis = useCallback(() => {
+    handleImagesSelect(failedImages);
+  }, [handleImagesSelect, failedImages]);
+
   /**
    * Переключение чата (для мобильных)
    */
@@ -90,28 +498,90 @@ function App() {
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
       {/* Шапка */}
-      <Header onLogoClick={resetApp} showResetButton={!!analysis} onReset={resetApp} />
+      <Header
+        onLogoClick={resetApp}
+        showResetButton={!!analysis || isAnalyzing || !!sharedPlan}
+        onReset={resetApp}
+        view={view}
+        onToggleView={toggleView}
+      />
 
       {/* Основной контент */}
       <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8">
         {/* Сообщение об ошибке */}
-        {error && <ErrorBanner message={error} onClose={clearError} />}
+        {error && (
+          <ErrorBanner
+            error={error}
+            onClose={clearError}
+            onRetry={failedImages.length > 0 ? retryAnalysis : undefined}
+          />
+        )}
+
+        {/* История анализов */}
+        {view === "history" && (
+          <HistoryPanel onOpenSession={openSession} onSessionDeleted={handleSessionDeleted} />
+        )}
+
+        {/* Список покупок из всех анализов */}
+        {view === "shopping" && (
+          <ShoppingList
+            onOpenSession={openSession}
+            onSessionUpdated={handleShoppingSessionUpdated}
+          />
+        )}
 
         {/* Начальный экран (загрузка изображения) */}
-        {!analysis && !isAnalyzing && (
-          <HeroSection onImageSelected={handleImageSelect} isAnalyzing={isAnalyzing} />
+        {view === "main" && !analysis && !isAnalyzing && !sharedPlan && (
+          <HeroSection
+            onImagesSelected={handleImagesSelect}
+            onPlanFileSelected={openSharedPlanFile}
+            isAnalyzing={isAnalyzing}
+            roomPicker={
+              <RoomPicker
+                rooms={rooms}
+                value={roomId}
+                onChange={setRoomId}
+                onCreateRoom={handleCreateRoom}
+              />
+            }
+          />
+        )}
+
+        {/* Общий план (только просмотр, без чата) */}
+        {view === "main" && sharedPlan && (
+          <SharedPlanView plan={sharedPlan} onClose={closeSharedPlan} />
         )}
 
         {/* Состояние загрузки */}
-        {isAnalyzing && <LoadingState />}
+        {view === "main" && isAnalyzing && (
+          <LoadingState images={selectedImages} stage={analysisStage} onCancel={cancelAnalysis} />
+        )}
 
         {/* Результаты анализа */}
-        {analysis && selectedImage && (
+        {view === "main" && analysis && selectedImages.length > 0 && (
           <AnalysisResults
+            key={sessionId ?? "unsaved"}
             analysis={analysis}
-            selectedImage={selectedImage}
+            selectedImages={selectedImages}
             showChat={showChat}
             onToggleChat={toggleChat}
+            savedThreads={savedThreads}
+            onThreadsChange={handleThreadsChange}
+            onActionItemsChange={handleActionItemsChange}
+            onFocusSessionEnd={handleFocusSessionEnd}
+            sessionId={sessionId}
+            isFromCache={isFromCache}
+            onReanalyze={reanalyze}
+            room={rooms.find((room) => room.id === roomId) ?? null}
+            roomPicker={
+              <RoomPicker
+                rooms={rooms}
+                value={roomId}
+                onChange={handleRoomChange}
+                onCreateRoom={handleCreateRoom}
+                disabled={!sessionId}
+              />
+            }
           />
         )}
       </main>
@@ -130,9 +600,17 @@ interface HeaderProps {
   onLogoClick: () => void;
   showResetButton: boolean;
   onReset: () => void;
+  view: AppView;
+  onToggleView: (view: Exclude<AppView, "main">) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onLogoClick, showResetButton, onReset }) => (
+const Header: React.FC<HeaderProps> = ({
+  onLogoClick,
+  showResetButton,
+  onReset,
+  view,
+  onToggleView,
+}) => (
   <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-slate-200 shadow-sm">
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
       {/* Логотип */}
@@ -151,45 +629,61 @@ const Header: React.FC<HeaderProps> = ({ onLogoClick, showResetButton, onReset }
         </h1>
       </div>
 
-      {/* Кнопка сброса */}
-      {showResetButton && (
+      <div className="flex items-center space-x-6">
+        {/* Кнопка списка покупок */}
         <button
-          onClick={onReset}
-          className="text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors flex items-center"
+          onClick={() => onToggleView("shopping")}
+          className={`text-sm font-medium transition-colors flex items-center ${
+            view === "shopping" ? "text-emerald-600" : "text-slate-500 hover:text-emerald-600"
+          }`}
         >
-          Начать заново
+          <ShoppingCart className="w-4 h-4 mr-1" />
+          Покупки
         </button>
-      )}
-    </div>
-  </header>
-);
 
-/**
- * Баннер с ошибкой
- */
-interface ErrorBannerProps {
-  message: string;
-  onClose: () => void;
-}
+        {/* Кнопка истории */}
+        <button
+          onClick={() => onToggleView("history")}
+          className={`text-sm font-medium transition-colors flex items-center ${
+            view === "history" ? "text-emerald-600" : "text-slate-500 hover:text-emerald-600"
+          }`}
+        >
+          <History className="w-4 h-4 mr-1" />
+          История
+        </button>
 
-const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onClose }) => (
-  <div className="max-w-2xl mx-auto mb-8 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between">
-    <span>{message}</span>
-    <button onClick={onClose} aria-label="Закрыть">
-      <X className="w-5 h-5 opacity-50 hover:opacity-100" />
-    </button>
-  </div>
+        {/* Кнопка сброса */}
+        {showResetButton && (
+          <button
+            onClick={onReset}
+            className="text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors flex items-center"
+          >
+            Начать заново
+          </button>
+        )}
+      </div>
+    </div>
+  </header>
 );
 
 /**
  * Начальный экран с Hero-секцией
  */
 interface HeroSectionProps {
-  onImageSelected: (base64: string) => void;
+  onImagesSelected: (images: UploadedImage[]) => void;
+  /** Выбран файл общего плана (.tidy.json) */
+  onPlanFileSelected: (file: File) => void;
   isAnalyzing: boolean;
+  /** Выбор комнаты для будущего анализа */
+  roomPicker: React.ReactNode;
 }
 
-const HeroSection: React.FC<HeroSectionProps> = ({ onImageSelected, isAnalyzing }) => (
+const HeroSection: React.FC<HeroSectionProps> = ({
+  onImagesSelected,
+  onPlanFileSelected,
+  isAnalyzing,
+  roomPicker,
+}) => (
   <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-8 animate-fade-in-up">
     {/* Заголовок */}
     <div className="space-y-4 max-w-2xl">
@@ -203,8 +697,24 @@ const HeroSection: React.FC<HeroSectionProps> = ({ onImageSelected, isAnalyzing
     </div>
 
     {/* Зона загрузки */}
-    <div className="w-full max-w-2xl">
-      <ImageUpload onImageSelected={onImageSelected} isAnalyzing={isAnalyzing} />
+    <div className="w-full max-w-2xl space-y-4">
+      <div className="max-w-sm mx-auto">{roomPicker}</div>
+      <ImageUpload onImagesSelected={onImagesSelected} isAnalyzing={isAnalyzing} />
+      <label className="inline-flex items-center text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors cursor-pointer">
+        <FolderOpen className="w-4 h-4 mr-1" />
+        Открыть план из файла (.tidy.json)
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Сброс значения, чтобы тот же файл можно было выбрать снова
+            e.target.value = "";
+            if (file) onPlanFileSelected(file);
+          }}
+        />
+      </label>
     </div>
 
     {/* Карточки функций */}
@@ -226,82 +736,232 @@ const HeroSection: React.FC<HeroSectionProps> = ({ onImageSelected, isAnalyzing
 );
 
 /**
- * Состояние загрузки
+ * Состояние загрузки: фото, этап анализа и кнопка отмены.
+ * Пока модель думает, сообщение меняется по времени ожидания
  */
-const LoadingState: React.FC = () => (
-  <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-8">
-    <div className="w-full max-w-2xl relative opacity-50 pointer-events-none">
-      <ImageUpload onImageSelected={() => {}} isAnalyzing={true} />
+interface LoadingStateProps {
+  images: UploadedImage[];
+  stage: AnalysisStage;
+  onCancel: () => void;
+}
+
+const LoadingState: React.FC<LoadingStateProps> = ({ images, stage, onCancel }) => {
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  // Отсчет времени с начала текущего этапа
+  useEffect(() => {
+    setElapsedSeconds(0);
+    const timer = setInterval(() => setElapsedSeconds((prev) => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  const waitingMessage =
+    stage === "request"
+      ? [...WAITING_MESSAGES].reverse().find(({ after }) => elapsedSeconds >= after)?.text
+      : undefined;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-6">
+      {/* Миниатюры анализируемых фото */}
+      <div className="flex flex-wrap justify-center gap-2 opacity-60">
+        {images.map((image, index) => (
+          <img
+            key={index}
+            src={toDataUrl(image)}
+            alt={`Фото ${index + 1}`}
+            className="w-20 h-20 object-cover rounded-lg border border-slate-200"
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center text-emerald-600" role="status" aria-live="polite">
+        <Loader2 className="w-10 h-10 animate-spin mb-4" />
+        <p className="font-medium">{waitingMessage ?? ANALYSIS_STAGE_MESSAGES[stage]}</p>
+        <p className="mt-1 text-xs text-slate-400">Обычно анализ занимает 10–40 секунд</p>
+      </div>
+
+      <button
+        onClick={onCancel}
+        className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-800 transition-colors"
+      >
+        Отменить
+      </button>
     </div>
-  </div>
-);
+  );
+};
 
 /**
  * Результаты анализа
  */
 interface AnalysisResultsProps {
   analysis: RoomAnalysis;
-  selectedImage: string;
+  selectedImages: UploadedImage[];
   showChat: boolean;
   onToggleChat: () => void;
+  savedThreads: ChatThread[];
+  onThreadsChange: (threads: ChatThread[]) => void;
+  onActionItemsChange: (items: ActionItem[]) => void;
+  onFocusSessionEnd: (record: FocusSessionRecord) => void;
+  sessionId: string | null;
+  /** Анализ взят из кэша, а не получен заново */
+  isFromCache: boolean;
+  /** Новый анализ тех же фото в обход кэша */
+  onReanalyze: () => void;
+  /** Комната открытого анализа (для сравнения с прошлыми анализами) */
+  room: Room | null;
+  roomPicker: React.ReactNode;
 }
 
 const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   analysis,
-  selectedImage,
+  selectedImages,
   showChat,
   onToggleChat,
-}) => (
-  <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-fade-in">
-    {/* Левая колонка: Изображение и чат */}
-    <div className="xl:col-span-4 space-y-6">
-      {/* Карточка с изображением */}
-      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
-        <div className="aspect-video w-full rounded-xl overflow-hidden bg-slate-100 relative group">
-          <img
-            src={`data:image/jpeg;base64,${selectedImage}`}
-            alt="Загруженная комната"
-            className="w-full h-full object-cover"
+  savedThreads,
+  onThreadsChange,
+  onActionItemsChange,
+  onFocusSessionEnd,
+  sessionId,
+  isFromCache,
+  onReanalyze,
+  room,
+  roomPicker,
+}) => {
+  // Задача под курсором: подсвечиваем фото, к которому она относится
+  const [hoveredItem, setHoveredItem] = useState<ActionItem | null>(null);
+  // Задача, выбранная кликом по маркеру на фото или по ее номеру в плане
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+
+  // Переписка живет здесь, а не в чате: мобильный чат можно скрывать без потери веток и ответа
+  const chat = useChatThreads({
+    images: selectedImages,
+    analysis,
+    initialThreads: savedThreads,
+    onThreadsChange,
+    onActionItemsChange,
+  });
+
+  const selectedItem = analysis.actionItems.find((item) => item.id === selectedItemId) ?? null;
+  const focusedItem = hoveredItem ?? selectedItem;
+
+  /**
+   * Повторный клик по выбранной задаче снимает выделение
+   */
+  const handleItemSelect = useCallback((id: string) => {
+    setSelectedItemId((current) => (current === id ? null : id));
+  }, []);
+
+  /**
+   * Ссылка на пункт из ответа ассистента: выделяем задачу, дашборд прокручивается к ней
+   */
+  const handleItemLinkClick = useCallback(
+    (number: number) => {
+      const item = analysis.actionItems[number - 1];
+      if (item) setSelectedItemId(item.id);
+    },
+    [analysis.actionItems]
+  );
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-fade-in">
+      {/* Левая колонка: Изображение и чат */}
+      <div className="xl:col-span-4 space-y-6">
+        {/* Карточка с изображением */}
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
+          <PhotoGallery
+            images={selectedImages}
+            highlightedIndex={focusedItem?.photoIndex ?? null}
+            actionItems={analysis.actionItems}
+            activeItemId={focusedItem?.id ?? null}
+            onItemSelect={handleItemSelect}
           />
-          <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
+          <div className="mt-4 flex items-center justify-between">
+            <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+              {selectedImages.length > 1 ? `Исходные фото (${selectedImages.length})` : "Исходное фото"}
+            </span>
+            {isFromCache ? (
+              <span
+                className="text-xs font-medium bg-sky-100 text-sky-700 px-2 py-1 rounded-full"
+                title="Эти фото уже анализировались — показан сохраненный результат"
+              >
+                Из кэша
+              </span>
+            ) : (
+              <span className="text-xs font-medium bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full">
+                Проанализировано
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onReanalyze}
+            className="mt-3 w-full flex items-center justify-center text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors"
+            title="Получить новый анализ этих фото, не используя сохраненный результат"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Переанализировать
+          </button>
+          <div className="mt-4 pt-4 border-t border-slate-50">{roomPicker}</div>
         </div>
-        <div className="mt-4 flex items-center justify-between">
-          <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
-            Исходное фото
-          </span>
-          <span className="text-xs font-medium bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full">
-            Проанализировано
-          </span>
+
+        {/* Чат на десктопе */}
+        <div className="hidden xl:block">
+          <ChatInterface
+            chat={chat}
+            actionItemCount={analysis.actionItems.length}
+            onActionItemLinkClick={handleItemLinkClick}
+          />
         </div>
-      </div>
 
-      {/* Чат на десктопе */}
-      <div className="hidden xl:block">
-        <ChatInterface initialContextImage={selectedImage} />
+        {/* Кнопка чата на мобильных */}
+        <div className="xl:hidden">
+          <button
+            onClick={onToggleChat}
+            className="w-full py-4 bg-slate-900 text-white rounded-xl shadow-lg flex items-center justify-center font-medium hover:bg-slate-800 transition-colors"
+          >
+            <MessageCircle className="w-5 h-5 mr-2" />
+            {showChat ? "Скрыть ассистента" : "Спросить ассистента TidyAI"}
+          </button>
+          {showChat && (
+            <div className="mt-4">
+              <ChatInterface
+                chat={chat}
+                actionItemCount={analysis.actionItems.length}
+                onActionItemLinkClick={handleItemLinkClick}
+              />
+            </div>
+          )}
+        </div>
       </div>
 
-      {/* Кнопка чата на мобильных */}
-      <div className="xl:hidden">
-        <button
-          onClick={onToggleChat}
-          className="w-full py-4 bg-slate-900 text-white rounded-xl shadow-lg flex items-center justify-center font-medium hover:bg-slate-800 transition-colors"
-        >
-          <MessageCircle className="w-5 h-5 mr-2" />
-          {showChat ? "Скрыть ассистента" : "Спросить ассистента TidyAI"}
-        </button>
-        {showChat && (
-          <div className="mt-4">
-            <ChatInterface initialContextImage={selectedImage} />
-          </div>
+      {/* Правая колонка: Прогресс комнаты и дашборд анализа */}
+      <div className="xl:col-span-8 space-y-6">
+        {room && (
+          <RoomProgress
+            roomId={room.id}
+            roomName={room.name}
+            currentSessionId={sessionId}
+            currentAnalysis={analysis}
+          />
         )}
+        <AnalysisDashboard
+          analysis={analysis}
+          onActionItemsChange={onActionItemsChange}
+          onItemHover={setHoveredItem}
+          photoCount={selectedImages.length}
+          selectedItemId={selectedItemId}
+          onItemSelect={handleItemSelect}
+          planActions={
+            <ExportMenu
+              analysis={analysis}
+              images={selectedImages}
+              planId={sessionId ?? undefined}
+            />
+          }
+          onFocusSessionEnd={onFocusSessionEnd}
+        />
       </div>
     </div>
-
-    {/* Правая колонка: Дашборд анализа */}
-    <div className="xl:col-span-8">
-      <AnalysisDashboard analysis={analysis} />
-    </div>
-  </div>
-);
+  );
+};
 
 export default App;
@@ -1,14 +1,37 @@
-import React, { useMemo } from "react";
-import { RoomAnalysis, ActionItem } from "../types";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { RoomAnalysis, ActionItem, FocusSessionRecord } from "../types";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
 import {
   CheckCircle2,
+  Circle,
   ShoppingBag,
   ArrowRight,
+  ArrowUp,
+  ArrowDown,
   Trash2,
   Library,
   ShoppingCart,
+  Pencil,
+  Plus,
+  Check,
+  X,
+  Target,
 } from "lucide-react";
+import {
+  ActionItemDraft,
+  addActionItem,
+  getActionItemMinutes,
+  getActionItemNumbers,
+  getCompletionPercent,
+  moveActionItem,
+  removeActionItem,
+  setActionItemCompleted,
+  toggleActionItem,
+  updateActionItem,
+} from "../services/actionPlan";
+import { formatPriceRange } from "../services/shoppingList";
+import SessionPlanner from "./SessionPlanner";
+import FocusMode from "./FocusMode";
 
 // ============================================================================
 // ТИПЫ
@@ -16,6 +39,39 @@ import {
 
 interface AnalysisDashboardProps {
   analysis: RoomAnalysis;
+  /** Изменение плана (отметки, правки, порядок). Без коллбека план только для чтения */
+  onActionItemsChange?: (items: ActionItem[]) => void;
+  /** Наведение на задачу (null — курсор ушел), чтобы подсветить ее фото */
+  onItemHover?: (item: ActionItem | null) => void;
+  /** Количество фото в анализе: при нескольких фото у задач показывается номер фото */
+  photoCount?: number;
+  /** Задача, выделенная на фото */
+  selectedItemId?: string | null;
+  /** Клик по номеру задачи с рамкой: выделить (или снять выделение) на фото */
+  onItemSelect?: (id: string) => void;
+  /** Дополнительные действия в заголовке плана (например, экспорт) */
+  planActions?: React.ReactNode;
+  /** Завершена сессия в режиме фокуса — для записи в историю */
+  onFocusSessionEnd?: (record: FocusSessionRecord) => void;
+}
+
+/** Номер задачи и ее связь с рамкой на фото */
+interface ActionItemAnnotation {
+  selectedItemId: string | null;
+  /** Номера задач (как у маркеров на фото и в ответах ассистента) */
+  numbers: Map<string, number>;
+  onSelect?: (id: string) => void;
+}
+
+/** Действия над задачами чек-листа */
+interface ActionItemHandlers {
+  onToggle: (id: string) => void;
+  /** Отметить задачу выполненной (из пошаговой сессии) */
+  onComplete: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<ActionItemDraft>) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onAdd: (draft: ActionItemDraft) => void;
 }
 
 /** Конфигурация группы действий */
@@ -33,6 +89,13 @@ interface ActionGroupConfig {
 /** Цвета для круговой диаграммы */
 const CHART_COLORS = ["#10b981", "#f59e0b", "#ef4444", "#6366f1"] as const;
 
+/** Подписи уровней сложности */
+const DIFFICULTY_LABELS: Record<ActionItem["difficulty"], string> = {
+  Easy: "Легко",
+  Medium: "Средне",
+  Hard: "Сложно",
+};
+
 /** Конфигурация групп действий по категориям */
 const ACTION_GROUP_CONFIG: Record<ActionItem["category"], ActionGroupConfig> = {
   Discard: {
@@ -59,21 +122,60 @@ const ACTION_GROUP_CONFIG: Record<ActionItem["category"], ActionGroupConfig> = {
 // КОМПОНЕНТ
 // ============================================================================
 
-const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ analysis }) => {
+const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
+  analysis,
+  onActionItemsChange,
+  onItemHover,
+  photoCount = 1,
+  selectedItemId = null,
+  onItemSelect,
+  planActions,
+  onFocusSessionEnd,
+}) => {
+  const { actionItems } = analysis;
+  const [isFocusMode, setIsFocusMode] = useState(false);
+
+  // Нумерация совпадает с маркерами на фото и ссылками в чате
+  const annotation = useMemo<ActionItemAnnotation>(
+    () => ({ selectedItemId, numbers: getActionItemNumbers(actionItems), onSelect: onItemSelect }),
+    [actionItems, selectedItemId, onItemSelect]
+  );
+
+  // Обработчики чек-листа: каждая операция возвращает новый список задач
+  const handlers = useMemo<ActionItemHandlers | undefined>(() => {
+    if (!onActionItemsChange) return undefined;
+    return {
+      onToggle: (id) => onActionItemsChange(toggleActionItem(actionItems, id)),
+      onComplete: (id) => onActionItemsChange(setActionItemCompleted(actionItems, id, true)),
+      onUpdate: (id, patch) => onActionItemsChange(updateActionItem(actionItems, id, patch)),
+      onRemove: (id) => onActionItemsChange(removeActionItem(actionItems, id)),
+      onMove: (id, direction) => onActionItemsChange(moveActionItem(actionItems, id, direction)),
+      onAdd: (draft) => onActionItemsChange(addActionItem(actionItems, draft)),
+    };
+  }, [actionItems, onActionItemsChange]);
+
   // Группировка задач по категориям (мемоизировано)
-  const groupedItems = useMemo(() => {
+  const groupedItems = useMemo<Record<ActionItem["category"], ActionItem[]>>(() => {
     return {
-      discard: analysis.actionItems.filter((item) => item.category === "Discard"),
-      organize: analysis.actionItems.filter((item) => item.category === "Organize"),
-      buy: analysis.actionItems.filter((item) => item.category === "Buy"),
+      Discard: analysis.actionItems.filter((item) => item.category === "Discard"),
+      Organize: analysis.actionItems.filter((item) => item.category === "Organize"),
+      Buy: analysis.actionItems.filter((item) => item.category === "Buy"),
     };
   }, [analysis.actionItems]);
 
   // Проверка наличия задач
-  const hasNoItems =
-    groupedItems.discard.length === 0 &&
-    groupedItems.organize.length === 0 &&
-    groupedItems.buy.length === 0;
+  const hasNoItems = analysis.actionItems.length === 0;
+
+  const completionPercent = useMemo(() => getCompletionPercent(actionItems), [actionItems]);
+  const hasPendingItems = actionItems.some((item) => !item.completed);
+
+  const closeFocusMode = useCallback(
+    (record: FocusSessionRecord | null) => {
+      setIsFocusMode(false);
+      if (record) onFocusSessionEnd?.(record);
+    },
+    [onFocusSessionEnd]
+  );
 
   return (
     <div className="space-y-6 animate-fade-in pb-12">
@@ -82,23 +184,47 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ analysis }) => {
         roomType={analysis.roomType}
         summary={analysis.summary}
         clutterLevel={analysis.clutterLevel}
+        completionPercent={completionPercent}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Колонки с планом действий */}
         <div className="lg:col-span-2">
-          <h3 className="text-lg font-semibold text-slate-800 flex items-center mb-4">
-            <CheckCircle2 className="w-5 h-5 mr-2 text-emerald-500" />
-            План действий
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-slate-800 flex items-center">
+              <CheckCircle2 className="w-5 h-5 mr-2 text-emerald-500" />
+              План действий
+            </h3>
+            <div className="flex items-center space-x-2">
+              {handlers && hasPendingItems && (
+                <button
+                  onClick={() => setIsFocusMode(true)}
+                  className="flex items-center px-3 py-1.5 text-sm font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+                  title="Одна задача за раз с таймером «помидора»"
+                >
+                  <Target className="w-4 h-4 mr-1.5" />
+                  Режим фокуса
+                </button>
+              )}
+              {planActions}
+            </div>
+          </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 auto-rows-fr">
-            <ActionGroup category="Discard" items={groupedItems.discard} />
-            <ActionGroup category="Organize" items={groupedItems.organize} />
-            <ActionGroup category="Buy" items={groupedItems.buy} />
+            {(["Discard", "Organize", "Buy"] as const).map((category) => (
+              <ActionGroup
+                key={category}
+                category={category}
+                items={groupedItems[category]}
+                handlers={handlers}
+                onItemHover={onItemHover}
+                showPhotoBadges={photoCount > 1}
+                annotation={annotation}
+              />
+            ))}
 
             {/* Сообщение об отсутствии задач */}
-            {hasNoItems && (
+            {hasNoItems && !handlers && (
               <div className="col-span-2 p-8 text-center text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-200">
                 Идеальный порядок! Действий не требуется.
               </div>
@@ -108,10 +234,26 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ analysis }) => {
 
         {/* Колонка статистики и эстетики */}
         <div className="space-y-6">
+          {handlers && (
+            <SessionPlanner
+              items={actionItems}
+              numbers={annotation.numbers}
+              onCompleteItem={handlers.onComplete}
+            />
+          )}
           <SpaceUtilizationChart data={analysis.spaceUtilization} />
           <AestheticTips tips={analysis.aestheticSuggestions} />
         </div>
       </div>
+
+      {isFocusMode && handlers && (
+        <FocusMode
+          items={actionItems}
+          numbers={annotation.numbers}
+          onCompleteItem={handlers.onComplete}
+          onClose={closeFocusMode}
+        />
+      )}
     </div>
   );
 };
@@ -127,9 +269,15 @@ interface SummaryCardProps {
   roomType: string;
   summary: string;
   clutterLevel: number;
+  completionPercent: number;
 }
 
-const SummaryCard: React.FC<SummaryCardProps> = ({ roomType, summary, clutterLevel }) => {
+const SummaryCard: React.FC<SummaryCardProps> = ({
+  roomType,
+  summary,
+  clutterLevel,
+  completionPercent,
+}) => {
   // Определяем цвет индикатора в зависимости от уровня захламленности
   const clutterColor = useMemo(() => {
     if (clutterLevel > 70) return "text-red-500";
@@ -145,49 +293,80 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ roomType, summary, clutterLev
           <p className="text-slate-600 leading-relaxed">{summary}</p>
         </div>
 
-        {/* Индикатор уровня захламленности */}
-        <div className="flex flex-col items-center ml-4 min-w-[100px]">
-          <div className="relative w-20 h-20 flex items-center justify-center">
-            <svg className="w-full h-full -rotate-90" viewBox="0 0 36 36">
-              {/* Фоновый круг */}
-              <path
-                className="text-slate-100"
-                d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="3"
-              />
-              {/* Круг прогресса */}
-              <path
-                className={`${clutterColor} transition-all duration-1000 ease-out`}
-                strokeDasharray={`${clutterLevel}, 100`}
-                d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="3"
-              />
-            </svg>
-            <span className="absolute text-sm font-bold text-slate-700">{clutterLevel}%</span>
-          </div>
-          <span className="text-xs text-slate-500 mt-1 uppercase tracking-wide">Захламленность</span>
+        {/* Индикаторы захламленности и выполнения плана */}
+        <div className="flex ml-4">
+          <ProgressRing value={clutterLevel} colorClass={clutterColor} label="Захламленность" />
+          <ProgressRing value={completionPercent} colorClass="text-indigo-500" label="Выполнено" />
         </div>
       </div>
     </div>
   );
 };
 
+/**
+ * Круговой индикатор процента
+ */
+interface ProgressRingProps {
+  value: number;
+  colorClass: string;
+  label: string;
+}
+
+const ProgressRing: React.FC<ProgressRingProps> = ({ value, colorClass, label }) => (
+  <div className="flex flex-col items-center min-w-[100px]">
+    <div className="relative w-20 h-20 flex items-center justify-center">
+      <svg className="w-full h-full -rotate-90" viewBox="0 0 36 36">
+        {/* Фоновый круг */}
+        <path
+          className="text-slate-100"
+          d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="3"
+        />
+        {/* Круг прогресса */}
+        <path
+          className={`${colorClass} transition-all duration-1000 ease-out`}
+          strokeDasharray={`${value}, 100`}
+          d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="3"
+        />
+      </svg>
+      <span className="absolute text-sm font-bold text-slate-700">{value}%</span>
+    </div>
+    <span className="text-xs text-slate-500 mt-1 uppercase tracking-wide">{label}</span>
+  </div>
+);
+
 /**
  * Группа действий по категории
  */
 interface ActionGroupProps {
   category: ActionItem["category"];
   items: ActionItem[];
+  /** Обработчики чек-листа; без них группа только для чтения */
+  handlers?: ActionItemHandlers;
+  onItemHover?: (item: ActionItem | null) => void;
+  showPhotoBadges: boolean;
+  annotation: ActionItemAnnotation;
 }
 
-const ActionGroup: React.FC<ActionGroupProps> = ({ category, items }) => {
-  if (items.length === 0) return null;
+const ActionGroup: React.FC<ActionGroupProps> = ({
+  category,
+  items,
+  handlers,
+  onItemHover,
+  showPhotoBadges,
+  annotation,
+}) => {
+  // В режиме чтения пустые группы не показываем; в режиме редактирования — чтобы можно было добавить задачу
+  if (items.length === 0 && !handlers) return null;
 
   const config = ACTION_GROUP_CONFIG[category];
+  const completedCount = items.filter((item) => item.completed).length;
+  const progress = items.length > 0 ? (completedCount / items.length) * 100 : 0;
 
   return (
     <div
@@ -200,23 +379,360 @@ const ActionGroup: React.FC<ActionGroupProps> = ({ category, items }) => {
         {config.icon}
         <span className="ml-2">{config.title}</span>
         <span className="ml-auto text-xs font-normal bg-white/50 px-2 py-0.5 rounded-full">
-          {items.length}
+          {completedCount}/{items.length}
         </span>
       </div>
 
+      {/* Прогресс категории */}
+      <div className="h-1 bg-slate-100">
+        <div
+          className="h-full bg-emerald-500 transition-all duration-500"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
       {/* Список задач */}
       <div className="p-4 space-y-3 flex-1">
-        {items.map((item) => (
-          <div key={item.id} className="pb-3 border-b border-slate-50 last:border-0 last:pb-0">
-            <h4 className="font-medium text-slate-800 text-sm mb-1">{item.title}</h4>
-            <p className="text-xs text-slate-500 leading-relaxed">{item.description}</p>
-          </div>
+        {items.map((item, index) => (
+          <ActionItemRow
+            key={item.id}
+            item={item}
+            handlers={handlers}
+            isFirst={index === 0}
+            isLast={index === items.length - 1}
+            onHover={onItemHover}
+            showPhotoBadge={showPhotoBadges}
+            annotation={annotation}
+          />
         ))}
+
+        {handlers && <AddActionItemForm category={category} onAdd={handlers.onAdd} />}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Строка задачи чек-листа
+ */
+interface ActionItemRowProps {
+  item: ActionItem;
+  handlers?: ActionItemHandlers;
+  isFirst: boolean;
+  isLast: boolean;
+  onHover?: (item: ActionItem | null) => void;
+  showPhotoBadge: boolean;
+  annotation: ActionItemAnnotation;
+}
+
+const ActionItemRow: React.FC<ActionItemRowProps> = ({
+  item,
+  handlers,
+  isFirst,
+  isLast,
+  onHover,
+  showPhotoBadge,
+  annotation,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  const number = annotation.numbers.get(item.id);
+  const isSelected = annotation.selectedItemId === item.id;
+
+  // Задачу, выбранную на фото или по ссылке из чата, прокручиваем в видимую область
+  useEffect(() => {
+    if (isSelected) {
+      rowRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [isSelected]);
+
+  /**
+   * Сохранение правок задачи
+   */
+  const handleSave = useCallback(
+    (draft: ActionItemDraft) => {
+      handlers?.onUpdate(item.id, draft);
+      setIsEditing(false);
+    },
+    [handlers, item.id]
+  );
+
+  if (isEditing && handlers) {
+    return (
+      <ActionItemEditor
+        initial={item}
+        submitLabel="Сохранить"
+        onSubmit={handleSave}
+        onCancel={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div
+      ref={rowRef}
+      className={`group flex items-start pb-3 border-b border-slate-50 last:border-0 last:pb-0 rounded-lg transition-colors ${
+        isSelected ? "bg-emerald-50 ring-2 ring-emerald-200 -mx-2 px-2 pt-2" : ""
+      }`}
+      onMouseEnter={() => onHover?.(item)}
+      onMouseLeave={() => onHover?.(null)}
+    >
+      {/* Отметка выполнения */}
+      {handlers && (
+        <button
+          onClick={() => handlers.onToggle(item.id)}
+          className="mr-2 mt-0.5 flex-shrink-0"
+          aria-label={item.completed ? "Отметить как невыполненную" : "Отметить как выполненную"}
+          aria-pressed={!!item.completed}
+        >
+          {item.completed ? (
+            <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+          ) : (
+            <Circle className="w-4 h-4 text-slate-300 hover:text-emerald-400" />
+          )}
+        </button>
+      )}
+
+      {/* Номер задачи: у задач с рамкой — кнопка показа на фото */}
+      {number !== undefined && !item.boundingBox && (
+        <span className="mr-2 mt-0.5 w-4 h-4 flex-shrink-0 rounded-full text-[10px] font-bold flex items-center justify-center bg-slate-100 text-slate-500">
+          {number}
+        </span>
+      )}
+      {number !== undefined && item.boundingBox && (
+        <button
+          onClick={() => annotation.onSelect?.(item.id)}
+          disabled={!annotation.onSelect}
+          className={`mr-2 mt-0.5 w-4 h-4 flex-shrink-0 rounded-full text-[10px] font-bold flex items-center justify-center transition-colors ${
+            isSelected
+              ? "bg-emerald-500 text-white"
+              : "bg-slate-200 text-slate-700 hover:bg-emerald-200"
+          }`}
+          aria-label={`Показать задачу ${number} на фото`}
+          aria-pressed={isSelected}
+          title="Показать на фото"
+        >
+          {number}
+        </button>
+      )}
+
+      <div className="flex-1 min-w-0">
+        <h4
+          className={`font-medium text-sm mb-1 ${
+            item.completed ? "text-slate-400 line-through" : "text-slate-800"
+          }`}
+        >
+          {item.title}
+          {showPhotoBadge && item.photoIndex !== undefined && (
+            <span className="ml-2 align-middle text-[10px] font-normal text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded-full no-underline">
+              Фото {item.photoIndex + 1}
+            </span>
+          )}
+          <span
+            className="ml-2 align-middle text-[10px] font-normal text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded-full no-underline"
+            title={item.estimatedMinutes ? "Оценка времени" : "Оценка времени по сложности"}
+          >
+            ~{getActionItemMinutes(item)} мин
+          </span>
+        </h4>
+        <p className="text-xs text-slate-500 leading-relaxed">{item.description}</p>
+        {item.category === "Buy" && item.purchase && (
+          <p className="mt-1 text-xs text-amber-700">
+            {[
+              `${item.purchase.itemType} × ${item.purchase.quantity}`,
+              item.purchase.dimensions,
+              item.purchase.priceRange && formatPriceRange(item.purchase.priceRange),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        )}
       </div>
+
+      {/* Управление задачей (появляется при наведении) */}
+      {handlers && (
+        <div className="ml-2 flex items-center space-x-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <IconButton label="Выше" disabled={isFirst} onClick={() => handlers.onMove(item.id, -1)}>
+            <ArrowUp className="w-3.5 h-3.5" />
+          </IconButton>
+          <IconButton label="Ниже" disabled={isLast} onClick={() => handlers.onMove(item.id, 1)}>
+            <ArrowDown className="w-3.5 h-3.5" />
+          </IconButton>
+          <IconButton label="Редактировать" onClick={() => setIsEditing(true)}>
+            <Pencil className="w-3.5 h-3.5" />
+          </IconButton>
+          <IconButton label="Удалить" onClick={() => handlers.onRemove(item.id)}>
+            <Trash2 className="w-3.5 h-3.5" />
+          </IconButton>
+        </div>
+      )}
     </div>
   );
 };
 
+/**
+ * Маленькая кнопка-иконка для управления задачей
+ */
+interface IconButtonProps {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+const IconButton: React.FC<IconButtonProps> = ({ label, onClick, disabled = false, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none"
+    aria-label={label}
+    title={label}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Форма редактирования задачи (правка и добавление)
+ */
+interface ActionItemEditorProps {
+  initial: ActionItemDraft;
+  submitLabel: string;
+  onSubmit: (draft: ActionItemDraft) => void;
+  onCancel: () => void;
+}
+
+const ActionItemEditor: React.FC<ActionItemEditorProps> = ({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const [title, setTitle] = useState(initial.title);
+  const [description, setDescription] = useState(initial.description);
+  const [difficulty, setDifficulty] = useState(initial.difficulty);
+  const [minutes, setMinutes] = useState(initial.estimatedMinutes?.toString() ?? "");
+
+  const handleSubmit = useCallback(() => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) return;
+    // Пустое поле — время оценивается по сложности
+    const parsedMinutes = Math.round(Number(minutes));
+    onSubmit({
+      title: trimmedTitle,
+      description: description.trim(),
+      difficulty,
+      category: initial.category,
+      estimatedMinutes: parsedMinutes > 0 ? parsedMinutes : undefined,
+    });
+  }, [title, description, difficulty, minutes, initial.category, onSubmit]);
+
+  return (
+    <div className="space-y-2 pb-3 border-b border-slate-50 last:border-0 last:pb-0">
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleSubmit();
+          if (e.key === "Escape") onCancel();
+        }}
+        placeholder="Что сделать?"
+        className="w-full px-2 py-1 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        aria-label="Заголовок задачи"
+        autoFocus
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Подробности (необязательно)"
+        rows={2}
+        className="w-full px-2 py-1 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500 resize-none"
+        aria-label="Описание задачи"
+      />
+      <div className="flex items-center">
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as ActionItem["difficulty"])}
+          className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs"
+          aria-label="Сложность"
+        >
+          {(Object.keys(DIFFICULTY_LABELS) as ActionItem["difficulty"][]).map((value) => (
+            <option key={value} value={value}>
+              {DIFFICULTY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          max={480}
+          value={minutes}
+          onChange={(e) => setMinutes(e.target.value)}
+          placeholder="мин"
+          className="ml-2 w-16 px-2 py-1 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          aria-label="Минут на задачу"
+          title="Сколько минут займет задача"
+        />
+        <div className="ml-auto flex items-center space-x-1">
+          <IconButton label="Отменить" onClick={onCancel}>
+            <X className="w-4 h-4" />
+          </IconButton>
+          <button
+            onClick={handleSubmit}
+            disabled={!title.trim()}
+            className="flex items-center px-2 py-1 text-xs font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            <Check className="w-3.5 h-3.5 mr-1" />
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Кнопка и форма добавления своей задачи в категорию
+ */
+interface AddActionItemFormProps {
+  category: ActionItem["category"];
+  onAdd: (draft: ActionItemDraft) => void;
+}
+
+const AddActionItemForm: React.FC<AddActionItemFormProps> = ({ category, onAdd }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleSubmit = useCallback(
+    (draft: ActionItemDraft) => {
+      onAdd(draft);
+      setIsOpen(false);
+    },
+    [onAdd]
+  );
+
+  if (isOpen) {
+    return (
+      <ActionItemEditor
+        initial={{ title: "", description: "", difficulty: "Medium", category }}
+        submitLabel="Добавить"
+        onSubmit={handleSubmit}
+        onCancel={() => setIsOpen(false)}
+      />
+    );
+  }
+
+  return (
+    <button
+      onClick={() => setIsOpen(true)}
+      className="flex items-center text-xs font-medium text-slate-400 hover:text-emerald-600 transition-colors"
+    >
+      <Plus className="w-3.5 h-3.5 mr-1" />
+      Добавить задачу
+    </button>
+  );
+};
+
 /**
  * Диаграмма использования пространства
  */
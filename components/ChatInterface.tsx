@@ -1,59 +1,104 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
-import { Send, User, Bot, Sparkles } from "lucide-react";
-import { ChatMessage, GeminiContent } from "../types";
-import { sendChatMessage } from "../services/geminiService";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import {
+  Send,
+  User,
+  Bot,
+  Sparkles,
+  Square,
+  RotateCcw,
+  RefreshCw,
+  AlertCircle,
+  Copy,
+  Check,
+  Pencil,
+  ImagePlus,
+  X,
+  Loader2,
+  Archive,
+} from "lucide-react";
+import { ChatMessage, UploadedImage } from "../types";
+import { ChatThreadsController } from "../hooks/useChatThreads";
+import { ChatUsage } from "../services/chatBudget";
+import { AI_ERROR_HINTS } from "../services/errors";
+import { parseActionItemLink, renderChatMarkdown } from "../services/markdown";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  DEFAULT_PREPROCESSING_OPTIONS,
+  ImagePreprocessingOptions,
+  preprocessImage,
+  toDataUrl,
+} from "../services/imagePreprocessing";
+import PlanChangeCard from "./PlanChangeCard";
+import ChatThreadTabs from "./ChatThreadTabs";
 
 // ============================================================================
 // ТИПЫ
 // ============================================================================
 
 interface ChatInterfaceProps {
-  /** Base64 изображение для контекста чата */
-  initialContextImage: string;
+  /** Ветки переписки и действия над ними (состояние хранится снаружи и переживает скрытие чата) */
+  chat: ChatThreadsController;
+  /** Количество пунктов плана: упоминания существующих пунктов в ответах становятся ссылками */
+  actionItemCount: number;
+  /** Клик по ссылке на пункт плана в ответе ассистента (номер пункта, начиная с 1) */
+  onActionItemLinkClick?: (number: number) => void;
 }
 
 // ============================================================================
 // КОНСТАНТЫ
 // ============================================================================
 
-/** Начальное приветственное сообщение */
+/** Фото в чате — уточняющие кадры, им хватает меньшего разрешения (они хранятся в переписке) */
+const CHAT_IMAGE_OPTIONS: ImagePreprocessingOptions = {
+  ...DEFAULT_PREPROCESSING_OPTIONS,
+  maxDimension: 1024,
+};
+
+/** Компактная запись числа токенов: «12,3 тыс.» */
+const TOKEN_FORMAT = new Intl.NumberFormat("ru-RU", {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+/** Доля бюджета, после которой индикатор предупреждает о скором сжатии */
+const USAGE_WARNING_RATIO = 0.8;
+
+/** Сколько показывается отметка «Скопировано» */
+const COPY_FEEDBACK_MS = 2000;
+
+/** Кнопка действия над сообщением: появляется при наведении на сообщение */
+const MESSAGE_ACTION_CLASSES =
+  "p-1 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-opacity focus:opacity-100";
+
+/** Начальное приветственное сообщение (в ветках не хранится) */
 const WELCOME_MESSAGE: ChatMessage = {
   id: "welcome",
   role: "model",
-  text: "Я проанализировал вашу комнату! Задавайте любые вопросы по плану организации или попросите рекомендации товаров.",
+  text: "Я проанализировал вашу комнату! Задавайте любые вопросы по плану организации или попросите рекомендации товаров. На пункты плана можно ссылаться по номеру, например: «подробнее про пункт 3».",
   timestamp: new Date(),
 };
 
-/** Начальная история для API (контекст с изображением) */
-const createInitialHistory = (imageBase64: string): GeminiContent[] => [
-  {
-    role: "user",
-    parts: [
-      { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
-      { text: "Вот фото комнаты, которую я хочу организовать." },
-    ],
-  },
-  {
-    role: "model",
-    parts: [{ text: "Понял. Я проанализировал изображение и готов помочь вам навести порядок." }],
-  },
-];
-
 // ============================================================================
 // КОМПОНЕНТ
 // ============================================================================
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) => {
-  // Состояние сообщений в UI
-  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
+const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  chat,
+  actionItemCount,
+  onActionItemLinkClick,
+}) => {
   const [input, setInput] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  
+  const { activeThread, isLoading } = chat;
+  const messages = activeThread.messages;
+
+  // Фото, приложенное к следующему сообщению
+  const [attachment, setAttachment] = useState<UploadedImage | null>(null);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   // Ref для автоскролла
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // История для API (сохраняется между рендерами)
-  const historyRef = useRef<GeminiContent[]>(createInitialHistory(initialContextImage));
 
   /**
    * Скролл к последнему сообщению
@@ -62,7 +107,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) =>
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
-  // Автоскролл при новых сообщениях
+  // Автоскролл при новых сообщениях и смене ветки
   useEffect(() => {
     scrollToBottom();
   }, [messages, scrollToBottom]);
@@ -70,59 +115,45 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) =>
   /**
    * Отправка сообщения
    */
-  const handleSend = useCallback(async () => {
-    const trimmedInput = input.trim();
-    if (!trimmedInput || isLoading) return;
-
-    // Создаем сообщение пользователя
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      role: "user",
-      text: trimmedInput,
-      timestamp: new Date(),
-    };
-
-    // Добавляем в UI и очищаем поле ввода
-    setMessages((prev) => [...prev, userMessage]);
+  const handleSend = useCallback(() => {
+    if ((!input.trim() && !attachment) || isLoading || isAttaching) return;
+    chat.sendMessage(input, attachment ?? undefined);
     setInput("");
-    setIsLoading(true);
+    setAttachment(null);
+  }, [chat, input, attachment, isLoading, isAttaching]);
+
+  /**
+   * Выбор фото для сообщения: уменьшаем и перекодируем, как исходные фото комнаты
+   */
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Сбрасываем значение, чтобы можно было выбрать тот же файл повторно
+    event.target.value = "";
+    if (!file) return;
 
+    setAttachmentError(null);
+    setIsAttaching(true);
     try {
-      // Отправляем в API
-      const responseText = await sendChatMessage(historyRef.current, trimmedInput);
-
-      // Создаем ответ бота
-      const botMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "model",
-        text: responseText,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, botMessage]);
-
-      // Обновляем историю для API
-      historyRef.current.push(
-        { role: "user", parts: [{ text: trimmedInput }] },
-        { role: "model", parts: [{ text: responseText }] }
+      setAttachment(await preprocessImage(file, CHAT_IMAGE_OPTIONS));
+    } catch (processingError) {
+      console.error("Ошибка подготовки фото для чата:", processingError);
+      setAttachmentError(
+        processingError instanceof Error
+          ? processingError.message
+          : "Ошибка чтения файла. Попробуйте другое изображение."
       );
-    } catch (error) {
-      console.error("Ошибка отправки сообщения:", error);
-      
-      // Добавляем сообщение об ошибке
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          role: "model",
-          text: "Извините, возникла проблема с соединением. Попробуйте снова.",
-          timestamp: new Date(),
-        },
-      ]);
     } finally {
-      setIsLoading(false);
+      setIsAttaching(false);
     }
-  }, [input, isLoading]);
+  }, []);
+
+  /**
+   * Убрать приложенное фото
+   */
+  const clearAttachment = useCallback(() => {
+    setAttachment(null);
+    setAttachmentError(null);
+  }, []);
 
   /**
    * Обработка нажатия Enter
@@ -145,7 +176,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) =>
   }, []);
 
   // Проверка возможности отправки
-  const canSend = input.trim() && !isLoading;
+  const canSend = (input.trim() || attachment) && !isLoading && !isAttaching;
+  const lastMessageId = messages[messages.length - 1]?.id;
+  // Сообщения до этого индекса модель видит только в кратком содержании
+  const compactedCount = activeThread.summary?.messageCount ?? 0;
 
   return (
     <div className="flex flex-col h-[600px] bg-white rounded-2xl shadow-lg border border-slate-200 overflow-hidden">
@@ -153,46 +187,131 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) =>
       <header className="bg-emerald-600 p-4 text-white flex items-center shadow-sm z-10">
         <Sparkles className="w-5 h-5 mr-2" />
         <h3 className="font-semibold">Ассистент TidyAI</h3>
+        <TokenUsageMeter usage={chat.usage} isCompacting={chat.isCompacting} />
       </header>
 
+      {/* Ветки переписки */}
+      <ChatThreadTabs
+        threads={chat.threads}
+        activeThreadId={activeThread.id}
+        loadingThreadId={chat.loadingThreadId}
+        onSelect={chat.selectThread}
+        onCreate={chat.createThread}
+        onRename={chat.renameThread}
+        onDelete={chat.deleteThread}
+      />
+
       {/* Область сообщений */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 scrollbar-hide">
-        {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+        {[WELCOME_MESSAGE, ...messages].map((message, index) => (
+          <React.Fragment key={message.id}>
+            {/* index - 1 — позиция в ветке (первым идет приветствие) */}
+            {compactedCount > 0 && index - 1 === compactedCount && <CompactionDivider />}
+            <MessageBubble
+              message={message}
+              itemCount={actionItemCount}
+              // Править можно вопросы пользователя, перегенерировать — только последний ответ
+              onEdit={!isLoading && message.role === "user" ? chat.editMessage : undefined}
+              onRegenerate={
+                !isLoading && message.role === "model" && message.id === lastMessageId
+                  ? chat.regenerate
+                  : undefined
+              }
+              onUndoPlanChange={chat.canEditPlan ? chat.undoPlanChange : undefined}
+              onActionItemLinkClick={onActionItemLinkClick}
+            />
+          </React.Fragment>
         ))}
-        
-        {/* Индикатор загрузки */}
-        {isLoading && <LoadingIndicator />}
-        
+
         {/* Якорь для автоскролла */}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Поле ввода */}
       <footer className="p-4 bg-white border-t border-slate-100">
+        {/* Приложенное фото */}
+        {(attachment || isAttaching || attachmentError) && (
+          <div className="mb-3 flex items-center space-x-2 text-xs">
+            {attachment && (
+              <div className="relative w-14 h-14 rounded-lg overflow-hidden border border-slate-200">
+                <img
+                  src={toDataUrl(attachment)}
+                  alt="Фото для отправки"
+                  className="w-full h-full object-cover"
+                />
+                <button
+                  onClick={clearAttachment}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/50 text-white hover:bg-black/70"
+                  aria-label="Убрать фото"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+            {isAttaching && (
+              <span className="flex items-center text-slate-500">
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                Подготовка фото...
+              </span>
+            )}
+            {attachmentError && (
+              <span className="text-red-600" role="alert">
+                {attachmentError}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="flex items-center space-x-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(",")}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || isAttaching}
+            className="p-2 rounded-xl text-slate-400 hover:text-emerald-600 hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Приложить фото"
+            title="Приложить фото (например, крупный план ящика)"
+          >
+            <ImagePlus className="w-5 h-5" />
+          </button>
           <input
             type="text"
             value={input}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Задайте вопрос..."
+            placeholder={attachment ? "Вопрос к фото (необязательно)..." : "Задайте вопрос..."}
             className="flex-1 px-4 py-2 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-slate-700 placeholder-slate-400"
             disabled={isLoading}
             aria-label="Сообщение"
           />
-          <button
-            onClick={handleSend}
-            disabled={!canSend}
-            className={`p-2 rounded-xl transition-colors ${
-              canSend
-                ? "bg-emerald-600 text-white hover:bg-emerald-700 shadow-md"
-                : "bg-slate-100 text-slate-400 cursor-not-allowed"
-            }`}
-            aria-label="Отправить"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={chat.stop}
+              className="p-2 rounded-xl transition-colors bg-slate-800 text-white hover:bg-slate-700 shadow-md"
+              aria-label="Остановить"
+              title="Остановить генерацию"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!canSend}
+              className={`p-2 rounded-xl transition-colors ${
+                canSend
+                  ? "bg-emerald-600 text-white hover:bg-emerald-700 shadow-md"
+                  : "bg-slate-100 text-slate-400 cursor-not-allowed"
+              }`}
+              aria-label="Отправить"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </footer>
     </div>
@@ -206,11 +325,56 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContextImage }) =>
 /**
  * Компонент пузырька сообщения
  */
-const MessageBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
+interface MessageBubbleProps {
+  message: ChatMessage;
+  /** Количество пунктов плана: упоминания существующих пунктов становятся ссылками */
+  itemCount: number;
+  /** Правка вопроса пользователя; без коллбека кнопка не показывается */
+  onEdit?: (id: string, text: string) => void;
+  /** Новый вариант ответа или повтор неудавшегося */
+  onRegenerate?: (id: string) => void;
+  /** Отмена изменения плана из этого ответа */
+  onUndoPlanChange?: (id: string) => void;
+  onActionItemLinkClick?: (number: number) => void;
+}
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  itemCount,
+  onEdit,
+  onRegenerate,
+  onUndoPlanChange,
+  onActionItemLinkClick,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+
   const isUser = message.role === "user";
+  const isError = message.status === "error";
+  const isStreaming = message.status === "streaming";
+  // Ответы модели рендерятся как Markdown; сообщения пользователя и ошибки — как есть
+  const isMarkdown = !isUser && !isError;
+  const canCopy = !!message.text && !isStreaming;
+
+  /**
+   * Отправка исправленного вопроса
+   */
+  const handleEditSubmit = useCallback(
+    (text: string) => {
+      setIsEditing(false);
+      if (text.trim() !== message.text) onEdit?.(message.id, text);
+    },
+    [message.id, message.text, onEdit]
+  );
+
+  // Стиль пузырька: пользователь, ошибка или обычный ответ модели
+  const bubbleClasses = isUser
+    ? "bg-slate-800 text-white rounded-tr-none"
+    : isError
+      ? "bg-red-50 text-red-700 border border-red-100 rounded-tl-none"
+      : "bg-white text-slate-800 border border-slate-100 rounded-tl-none";
 
   return (
-    <div className={`flex w-full ${isUser ? "justify-end" : "justify-start"}`}>
+    <div className={`group flex w-full ${isUser ? "justify-end" : "justify-start"}`}>
       <div className={`flex max-w-[80%] ${isUser ? "flex-row-reverse" : "flex-row"}`}>
         {/* Аватар */}
         <div
@@ -226,46 +390,321 @@ const MessageBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
         </div>
 
         {/* Текст сообщения */}
-        <div
-          className={`p-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
-            isUser
-              ? "bg-slate-800 text-white rounded-tr-none"
-              : "bg-white text-slate-800 border border-slate-100 rounded-tl-none"
-          }`}
-        >
-          {message.text}
+        <div className={`p-3 rounded-2xl text-sm leading-relaxed shadow-sm ${bubbleClasses}`}>
+          {/* Приложенное фото остается и при правке текста */}
+          {message.image && (
+            <img
+              src={toDataUrl(message.image)}
+              alt="Приложенное фото"
+              className={`max-h-48 rounded-lg ${message.text || isEditing ? "mb-2" : ""}`}
+            />
+          )}
+
+          {isEditing ? (
+            <MessageEditor
+              initialText={message.text}
+              allowEmpty={!!message.image}
+              onSubmit={handleEditSubmit}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : isStreaming && !message.text ? (
+            <TypingIndicator />
+          ) : isMarkdown ? (
+            <MarkdownText
+              text={message.text}
+              itemCount={itemCount}
+              isStreaming={isStreaming}
+              onActionItemLinkClick={onActionItemLinkClick}
+            />
+          ) : (
+            (message.text || isError) && (
+              <p className="whitespace-pre-wrap break-words">
+                {isError && <AlertCircle className="inline w-4 h-4 mr-1 -mt-0.5" />}
+                {message.text}
+              </p>
+            )
+          )}
+
+          {message.planChange && (
+            <PlanChangeCard
+              change={message.planChange}
+              onUndo={onUndoPlanChange && (() => onUndoPlanChange(message.id))}
+            />
+          )}
+
+          {message.status === "stopped" && (
+            <p className="mt-1 text-xs text-slate-400 italic">
+              {message.text ? "Ответ остановлен" : "Генерация остановлена"}
+            </p>
+          )}
+
+          {isError && message.errorKind && (
+            <p className="mt-1 text-xs text-red-700/80">{AI_ERROR_HINTS[message.errorKind]}</p>
+          )}
+
+          {isError && onRegenerate && (
+            <button
+              onClick={() => onRegenerate(message.id)}
+              className="mt-2 flex items-center text-xs font-medium text-red-700 hover:text-red-900"
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-1" />
+              Повторить
+            </button>
+          )}
         </div>
+
+        {/* Действия над сообщением */}
+        {!isEditing && (
+          <div className="self-end flex flex-col mx-1">
+            {onEdit && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className={`${MESSAGE_ACTION_CLASSES} opacity-0 group-hover:opacity-100`}
+                aria-label="Изменить сообщение"
+                title="Изменить и отправить заново"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {onRegenerate && !isError && (
+              <button
+                onClick={() => onRegenerate(message.id)}
+                className={`${MESSAGE_ACTION_CLASSES} opacity-0 group-hover:opacity-100`}
+                aria-label="Сгенерировать ответ заново"
+                title="Другой вариант ответа"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {canCopy && <CopyButton text={message.text} />}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
 /**
- * Компонент индикатора загрузки (печатает...)
+ * Ответ ассистента в формате Markdown.
+ * Ссылки на пункты плана (#action-item-N) перехватываются и не меняют адрес страницы
  */
-const LoadingIndicator: React.FC = () => (
-  <div className="flex w-full justify-start">
-    <div className="flex max-w-[80%] flex-row">
-      <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-emerald-100 mr-2">
-        <Bot className="w-5 h-5 text-emerald-600" />
+interface MarkdownTextProps {
+  text: string;
+  itemCount: number;
+  isStreaming: boolean;
+  onActionItemLinkClick?: (number: number) => void;
+}
+
+const MarkdownText: React.FC<MarkdownTextProps> = ({
+  text,
+  itemCount,
+  isStreaming,
+  onActionItemLinkClick,
+}) => {
+  // HTML очищается в renderChatMarkdown, поэтому его можно вставлять напрямую
+  const html = useMemo(() => renderChatMarkdown(text, itemCount), [text, itemCount]);
+
+  const handleClick = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const link = (event.target as HTMLElement).closest("a");
+      const number = link ? parseActionItemLink(link.getAttribute("href") ?? "") : null;
+      if (number === null) return;
+
+      event.preventDefault();
+      onActionItemLinkClick?.(number);
+    },
+    [onActionItemLinkClick]
+  );
+
+  return (
+    <div
+      className={`chat-markdown break-words ${isStreaming ? "is-streaming" : ""}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+/**
+ * Индикатор размера следующего запроса относительно бюджета токенов
+ */
+interface TokenUsageMeterProps {
+  usage: ChatUsage;
+  isCompacting: boolean;
+}
+
+const TokenUsageMeter: React.FC<TokenUsageMeterProps> = ({ usage, isCompacting }) => {
+  const ratio = Math.min(1, usage.tokens / usage.budget);
+  const isNearLimit = ratio >= USAGE_WARNING_RATIO;
+
+  return (
+    <div
+      className="ml-auto flex items-center space-x-2 text-xs text-emerald-50"
+      title={`Размер следующего запроса: около ${usage.tokens} токенов из ${usage.budget}. При превышении ранние сообщения сжимаются в краткое содержание; фото комнаты и анализ передаются всегда.`}
+    >
+      {isCompacting ? (
+        <span className="flex items-center">
+          <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+          Сжатие...
+        </span>
+      ) : (
+        <span>
+          ≈{TOKEN_FORMAT.format(usage.tokens)} / {TOKEN_FORMAT.format(usage.budget)}
+        </span>
+      )}
+      <div
+        className="w-16 h-1.5 rounded-full bg-white/25 overflow-hidden"
+        role="meter"
+        aria-label="Использование бюджета токенов"
+        aria-valuemin={0}
+        aria-valuemax={usage.budget}
+        aria-valuenow={usage.tokens}
+      >
+        <div
+          className={`h-full rounded-full transition-all ${isNearLimit ? "bg-amber-300" : "bg-white"}`}
+          style={{ width: `${ratio * 100}%` }}
+        />
       </div>
-      <div className="bg-white text-slate-800 border border-slate-100 p-3 rounded-2xl rounded-tl-none shadow-sm flex items-center">
-        <div className="flex space-x-1">
-          <div
-            className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
-            style={{ animationDelay: "0ms" }}
-          />
-          <div
-            className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
-            style={{ animationDelay: "150ms" }}
-          />
-          <div
-            className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
-            style={{ animationDelay: "300ms" }}
-          />
-        </div>
+    </div>
+  );
+};
+
+/**
+ * Граница сжатой части переписки
+ */
+const CompactionDivider: React.FC = () => (
+  <div className="flex items-center text-xs text-slate-400">
+    <div className="flex-1 border-t border-dashed border-slate-200" />
+    <span className="flex items-center px-2">
+      <Archive className="w-3.5 h-3.5 mr-1" />
+      Сообщения выше ассистент помнит в кратком изложении
+    </span>
+    <div className="flex-1 border-t border-dashed border-slate-200" />
+  </div>
+);
+
+/**
+ * Поле правки вопроса пользователя внутри пузырька
+ */
+interface MessageEditorProps {
+  initialText: string;
+  /** Текст можно стереть (к сообщению приложено фото) */
+  allowEmpty?: boolean;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+const MessageEditor: React.FC<MessageEditorProps> = ({
+  initialText,
+  allowEmpty = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState(initialText);
+  const canSubmit = allowEmpty || !!draft.trim();
+
+  /**
+   * Enter — отправить, Shift+Enter — перенос строки, Escape — отмена
+   */
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (event.key === "Enter" && !event.shiftKey) {
+        event.preventDefault();
+        if (canSubmit) onSubmit(draft);
+      }
+      if (event.key === "Escape") onCancel();
+    },
+    [canSubmit, draft, onSubmit, onCancel]
+  );
+
+  return (
+    <div className="w-64 max-w-full">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        className="w-full bg-slate-700 text-white rounded-lg p-2 resize-none focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        aria-label="Текст сообщения"
+        autoFocus
+      />
+      <p className="mt-1 text-xs text-slate-400">Ответы после этого сообщения будут заменены</p>
+      <div className="mt-2 flex justify-end space-x-2 text-xs font-medium">
+        <button onClick={onCancel} className="px-2 py-1 text-slate-300 hover:text-white">
+          Отмена
+        </button>
+        <button
+          onClick={() => onSubmit(draft)}
+          disabled={!canSubmit}
+          className="px-2 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+        >
+          Отправить
+        </button>
       </div>
     </div>
+  );
+};
+
+/**
+ * Кнопка копирования исходного текста сообщения (появляется при наведении)
+ */
+interface CopyButtonProps {
+  text: string;
+}
+
+const CopyButton: React.FC<CopyButtonProps> = ({ text }) => {
+  const [isCopied, setIsCopied] = useState(false);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), COPY_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setIsCopied(true);
+    } catch (error) {
+      console.error("Не удалось скопировать сообщение:", error);
+    }
+  }, [text]);
+
+  return (
+    <button
+      onClick={handleCopy}
+      className={`${MESSAGE_ACTION_CLASSES} ${
+        isCopied ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+      }`}
+      aria-label={isCopied ? "Скопировано" : "Копировать сообщение"}
+      title={isCopied ? "Скопировано" : "Копировать"}
+    >
+      {isCopied ? (
+        <Check className="w-3.5 h-3.5 text-emerald-600" />
+      ) : (
+        <Copy className="w-3.5 h-3.5" />
+      )}
+    </button>
+  );
+};
+
+/**
+ * Индикатор ожидания первого фрагмента ответа (печатает...)
+ */
+const TypingIndicator: React.FC = () => (
+  <div className="flex space-x-1 py-1" aria-label="Ассистент печатает">
+    <div
+      className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
+      style={{ animationDelay: "0ms" }}
+    />
+    <div
+      className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
+      style={{ animationDelay: "150ms" }}
+    />
+    <div
+      className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"
+      style={{ animationDelay: "300ms" }}
+    />
   </div>
 );
 
@@ -0,0 +1,148 @@
+import React, { useCallback, useState } from "react";
+import { Plus, Pencil, X, Check } from "lucide-react";
+import { ChatThread } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface ChatThreadTabsProps {
+  threads: ChatThread[];
+  activeThreadId: string;
+  /** Ветка, в которой генерируется ответ (отмечается точкой) */
+  loadingThreadId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Вкладки веток переписки: переключение, создание, переименование и удаление
+ */
+const ChatThreadTabs: React.FC<ChatThreadTabsProps> = ({
+  threads,
+  activeThreadId,
+  loadingThreadId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  /**
+   * Начало переименования ветки
+   */
+  const startRename = useCallback((thread: ChatThread) => {
+    setEditingId(thread.id);
+    setDraft(thread.title);
+  }, []);
+
+  /**
+   * Сохранение нового названия
+   */
+  const submitRename = useCallback(() => {
+    if (editingId) onRename(editingId, draft);
+    setEditingId(null);
+  }, [editingId, draft, onRename]);
+
+  /**
+   * Удаление ветки (непустую — после подтверждения)
+   */
+  const handleDelete = useCallback(
+    (thread: ChatThread) => {
+      if (thread.messages.length > 0 && !window.confirm(`Удалить переписку «${thread.title}»?`)) {
+        return;
+      }
+      onDelete(thread.id);
+    },
+    [onDelete]
+  );
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-2 bg-white border-b border-slate-100 overflow-x-auto scrollbar-hide">
+      {threads.map((thread) => {
+        const isActive = thread.id === activeThreadId;
+
+        if (thread.id === editingId) {
+          return (
+            <div key={thread.id} className="flex items-center flex-shrink-0 space-x-1">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") submitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="w-28 px-2 py-1 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                aria-label="Название переписки"
+                autoFocus
+              />
+              <button onClick={submitRename} aria-label="Сохранить название">
+                <Check className="w-3.5 h-3.5 text-emerald-600" />
+              </button>
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={thread.id}
+            className={`flex items-center flex-shrink-0 rounded-lg text-xs font-medium transition-colors ${
+              isActive ? "bg-emerald-50 text-emerald-700" : "text-slate-500 hover:bg-slate-50"
+            }`}
+          >
+            <button
+              onClick={() => onSelect(thread.id)}
+              className="flex items-center px-2 py-1"
+              aria-current={isActive}
+              title={thread.title}
+            >
+              {thread.id === loadingThreadId && (
+                <span className="w-1.5 h-1.5 mr-1 rounded-full bg-emerald-500 animate-pulse" />
+              )}
+              <span className="max-w-[8rem] truncate">{thread.title}</span>
+            </button>
+
+            {/* Действия доступны у активной ветки */}
+            {isActive && (
+              <>
+                <button
+                  onClick={() => startRename(thread)}
+                  className="p-1 text-emerald-600/60 hover:text-emerald-700"
+                  aria-label="Переименовать переписку"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleDelete(thread)}
+                  className="p-1 pr-1.5 text-emerald-600/60 hover:text-red-500"
+                  aria-label="Удалить переписку"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onCreate}
+        className="flex-shrink-0 p-1 rounded-lg text-slate-400 hover:text-emerald-600 hover:bg-slate-50"
+        aria-label="Новая переписка"
+        title="Новая переписка"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ChatThreadTabs;
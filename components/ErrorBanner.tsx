@@ -0,0 +1,99 @@
+import React from "react";
+import {
+  AlertCircle,
+  Clock,
+  FileWarning,
+  Gauge,
+  Globe,
+  KeyRound,
+  RotateCcw,
+  Settings,
+  ShieldAlert,
+  WifiOff,
+  X,
+} from "lucide-react";
+import { AIErrorKind } from "../types";
+import { AIServiceError } from "../services/errors";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface ErrorBannerProps {
+  error: AIServiceError;
+  onClose: () => void;
+  /** Повтор запроса; кнопка показывается только для временных ошибок */
+  onRetry?: () => void;
+}
+
+/** Оформление баннера для вида ошибки */
+interface ErrorAppearance {
+  title: string;
+  icon: React.ElementType;
+  /** Временная ошибка (желтый), ошибка настройки (красный) или отказ модели (серый) */
+  tone: "warning" | "error" | "neutral";
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const ERROR_APPEARANCE: Record<AIErrorKind, ErrorAppearance> = {
+  region: { title: "Сервис недоступен в регионе", icon: Globe, tone: "error" },
+  quota: { title: "Лимит запросов исчерпан", icon: Gauge, tone: "warning" },
+  auth: { title: "Проблема с ключом API", icon: KeyRound, tone: "error" },
+  timeout: { title: "Превышено время ожидания", icon: Clock, tone: "warning" },
+  safety: { title: "Запрос отклонен моделью", icon: ShieldAlert, tone: "neutral" },
+  parse: { title: "Непонятный ответ модели", icon: FileWarning, tone: "neutral" },
+  network: { title: "Нет связи с сервисом", icon: WifiOff, tone: "warning" },
+  config: { title: "Провайдер не настроен", icon: Settings, tone: "error" },
+  unknown: { title: "Что-то пошло не так", icon: AlertCircle, tone: "neutral" },
+};
+
+const TONE_CLASSES: Record<ErrorAppearance["tone"], string> = {
+  warning: "bg-amber-50 border-amber-200 text-amber-800",
+  error: "bg-red-50 border-red-200 text-red-700",
+  neutral: "bg-slate-100 border-slate-200 text-slate-700",
+};
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Баннер с ошибкой: вид ошибки, текст и подсказка, что делать дальше
+ */
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onClose, onRetry }) => {
+  const { title, icon: Icon, tone } = ERROR_APPEARANCE[error.kind];
+
+  return (
+    <div
+      role="alert"
+      className={`max-w-2xl mx-auto mb-8 border px-4 py-3 rounded-lg flex items-start gap-3 ${TONE_CLASSES[tone]}`}
+    >
+      <Icon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-semibold">{title}</p>
+        <p className="text-sm">{error.message}</p>
+        <p className="text-sm opacity-80">{error.hint}</p>
+
+        {onRetry && error.retryable && (
+          <button
+            onClick={onRetry}
+            className="mt-1 inline-flex items-center text-sm font-medium underline-offset-2 hover:underline"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Повторить
+          </button>
+        )}
+      </div>
+
+      <button onClick={onClose} aria-label="Закрыть">
+        <X className="w-5 h-5 opacity-50 hover:opacity-100" />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
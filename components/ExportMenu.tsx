@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Download,
+  Printer,
+  FileText,
+  FileJson,
+  Copy,
+  Check,
+  CalendarDays,
+  ChevronLeft,
+  Link2,
+} from "lucide-react";
+import { RoomAnalysis, UploadedImage } from "../types";
+import {
+  buildPlanCalendar,
+  buildPlanMarkdown,
+  buildPrintableHtml,
+  CalendarScheduleOptions,
+  downloadFile,
+  formatDateInput,
+  getExportFileName,
+  printHtml,
+  scheduleActionItems,
+} from "../services/planExport";
+import {
+  buildShareLink,
+  createSharedPlan,
+  serializeSharedPlan,
+  SHARED_PLAN_FILE_EXTENSION,
+} from "../services/planShare";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface ExportMenuProps {
+  analysis: RoomAnalysis;
+  /** Фото комнаты для печатной версии и миниатюры общего плана */
+  images: UploadedImage[];
+  /** Постоянный id плана для UID событий календаря; без него — случайный на время показа */
+  planId?: string;
+}
+
+/** Что было скопировано последним — для отметки «Скопировано» */
+type CopyTarget = "checklist" | "link";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Дни недели в порядке календаря; value — номер дня как в Date.getDay */
+const WEEKDAYS = [
+  { value: 1, label: "Пн" },
+  { value: 2, label: "Вт" },
+  { value: 3, label: "Ср" },
+  { value: 4, label: "Чт" },
+  { value: 5, label: "Пт" },
+  { value: 6, label: "Сб" },
+  { value: 0, label: "Вс" },
+] as const;
+
+/** Варианты времени на уборку в день, в минутах */
+const MINUTES_PER_DAY_OPTIONS = [30, 60, 90, 120] as const;
+
+const COPY_FEEDBACK_MS = 2000;
+
+const MENU_ITEM_CLASSES =
+  "w-full flex items-center px-3 py-2 text-sm text-slate-700 rounded-lg hover:bg-slate-50 transition-colors";
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Экспорт плана: печать (PDF), чек-лист Markdown, календарь .ics
+ * и общий план для просмотра (ссылка или файл). Все файлы формируются в браузере
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ analysis, images, planId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fallbackPlanId] = useState(() => crypto.randomUUID());
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [copied, setCopied] = useState<CopyTarget | null>(null);
+  const [includeThumbnail, setIncludeThumbnail] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Меню закрывается кликом вне его и клавишей Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), COPY_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const toggleMenu = useCallback(() => {
+    setIsOpen((open) => !open);
+    setShowCalendar(false);
+  }, []);
+
+  const handlePrint = useCallback(() => {
+    printHtml(buildPrintableHtml(analysis, images));
+    setIsOpen(false);
+  }, [analysis, images]);
+
+  const handleDownloadMarkdown = useCallback(() => {
+    downloadFile(
+      getExportFileName(analysis, "md"),
+      buildPlanMarkdown(analysis),
+      "text/markdown;charset=utf-8"
+    );
+    setIsOpen(false);
+  }, [analysis]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(buildPlanMarkdown(analysis));
+      setCopied("checklist");
+    } catch (error) {
+      console.error("Не удалось скопировать чек-лист:", error);
+    }
+  }, [analysis]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      const plan = await createSharedPlan(analysis, images, { includeThumbnail });
+      await navigator.clipboard.writeText(await buildShareLink(plan));
+      setCopied("link");
+    } catch (error) {
+      console.error("Не удалось скопировать ссылку на план:", error);
+    }
+  }, [analysis, images, includeThumbnail]);
+
+  const handleDownloadSharedPlan = useCallback(async () => {
+    const plan = await createSharedPlan(analysis, images, { includeThumbnail });
+    downloadFile(
+      getExportFileName(analysis, SHARED_PLAN_FILE_EXTENSION),
+      serializeSharedPlan(plan),
+      "application/json;charset=utf-8"
+    );
+    setIsOpen(false);
+  }, [analysis, images, includeThumbnail]);
+
+  const handleDownloadCalendar = useCallback(
+    (options: CalendarScheduleOptions) => {
+      downloadFile(
+        getExportFileName(analysis, "ics"),
+        buildPlanCalendar(analysis, planId ?? fallbackPlanId, options),
+        "text/calendar;charset=utf-8"
+      );
+      setIsOpen(false);
+    },
+    [analysis, planId, fallbackPlanId]
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={toggleMenu}
+        className="flex items-center px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-4 h-4 mr-1.5" />
+        Экспорт
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-100 rounded-xl shadow-lg p-2 z-20">
+          {showCalendar ? (
+            <CalendarForm
+              analysis={analysis}
+              onBack={() => setShowCalendar(false)}
+              onDownload={handleDownloadCalendar}
+            />
+          ) : (
+            <div role="menu">
+              <button role="menuitem" onClick={handlePrint} className={MENU_ITEM_CLASSES}>
+                <Printer className="w-4 h-4 mr-2 text-slate-400" />
+                Печать / PDF
+              </button>
+              <button role="menuitem" onClick={handleDownloadMarkdown} className={MENU_ITEM_CLASSES}>
+                <FileText className="w-4 h-4 mr-2 text-slate-400" />
+                Чек-лист Markdown (.md)
+              </button>
+              <button role="menuitem" onClick={handleCopy} className={MENU_ITEM_CLASSES}>
+                {copied === "checklist" ? (
+                  <Check className="w-4 h-4 mr-2 text-emerald-600" />
+                ) : (
+                  <Copy className="w-4 h-4 mr-2 text-slate-400" />
+                )}
+                {copied === "checklist" ? "Скопировано" : "Скопировать чек-лист"}
+              </button>
+              <button
+                role="menuitem"
+                onClick={() => setShowCalendar(true)}
+                className={MENU_ITEM_CLASSES}
+              >
+                <CalendarDays className="w-4 h-4 mr-2 text-slate-400" />
+                Календарь (.ics)…
+              </button>
+
+              {/* Общий план: получатель откроет его только для просмотра, без анализа и чата */}
+              <div className="mt-2 pt-2 border-t border-slate-100">
+                <p className="px-3 py-1 text-xs font-medium text-slate-400 uppercase tracking-wide">
+                  Поделиться для просмотра
+                </p>
+                <button role="menuitem" onClick={handleCopyLink} className={MENU_ITEM_CLASSES}>
+                  {copied === "link" ? (
+                    <Check className="w-4 h-4 mr-2 text-emerald-600" />
+                  ) : (
+                    <Link2 className="w-4 h-4 mr-2 text-slate-400" />
+                  )}
+                  {copied === "link" ? "Ссылка скопирована" : "Скопировать ссылку"}
+                </button>
+                <button
+                  role="menuitem"
+                  onClick={handleDownloadSharedPlan}
+                  className={MENU_ITEM_CLASSES}
+                >
+                  <FileJson className="w-4 h-4 mr-2 text-slate-400" />
+                  Файл плана (.tidy.json)
+                </button>
+                <label className="flex items-center px-3 py-2 text-xs text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeThumbnail}
+                    onChange={(e) => setIncludeThumbnail(e.target.checked)}
+                    className="mr-2 accent-emerald-600"
+                  />
+                  Добавить миниатюру фото
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Выбор дней для календаря с предпросмотром расписания
+ */
+interface CalendarFormProps {
+  analysis: RoomAnalysis;
+  onBack: () => void;
+  onDownload: (options: CalendarScheduleOptions) => void;
+}
+
+const CalendarForm: React.FC<CalendarFormProps> = ({ analysis, onBack, onDownload }) => {
+  const [startDate, setStartDate] = useState(() => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return formatDateInput(tomorrow);
+  });
+  const [weekdays, setWeekdays] = useState<number[]>(() => WEEKDAYS.map((day) => day.value));
+  const [startTime, setStartTime] = useState("10:00");
+  const [minutesPerDay, setMinutesPerDay] = useState<number>(60);
+
+  const options = useMemo<CalendarScheduleOptions>(
+    () => ({
+      // Дата из поля ввода — местная полночь, а не UTC
+      startDate: new Date(`${startDate}T00:00`),
+      weekdays,
+      startTime,
+      minutesPerDay,
+    }),
+    [startDate, weekdays, startTime, minutesPerDay]
+  );
+
+  const schedule = useMemo(
+    () => scheduleActionItems(analysis.actionItems, options),
+    [analysis.actionItems, options]
+  );
+  const dayCount = new Set(schedule.map(({ start }) => start.toDateString())).size;
+  const lastDay = schedule.at(-1)?.start;
+
+  const toggleWeekday = useCallback((value: number) => {
+    setWeekdays((current) =>
+      current.includes(value) ? current.filter((day) => day !== value) : [...current, value]
+    );
+  }, []);
+
+  const isValid = startDate !== "" && startTime !== "" && schedule.length > 0;
+
+  return (
+    <div className="p-1 space-y-3 text-sm">
+      <button
+        onClick={onBack}
+        className="flex items-center text-xs font-medium text-slate-500 hover:text-emerald-600"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        Назад
+      </button>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-xs text-slate-500">Начать с</span>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-slate-500">Время</span>
+          <input
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </label>
+      </div>
+
+      <div>
+        <span className="text-xs text-slate-500">Дни уборки</span>
+        <div className="mt-1 flex justify-between">
+          {WEEKDAYS.map((day) => {
+            const isSelected = weekdays.includes(day.value);
+            return (
+              <button
+                key={day.value}
+                onClick={() => toggleWeekday(day.value)}
+                className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${
+                  isSelected
+                    ? "bg-emerald-500 text-white"
+                    : "bg-slate-100 text-slate-500 hover:bg-slate-200"
+                }`}
+                aria-pressed={isSelected}
+              >
+                {day.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-slate-500">Времени в день</span>
+        <select
+          value={minutesPerDay}
+          onChange={(e) => setMinutesPerDay(Number(e.target.value))}
+          className="mt-1 w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        >
+          {MINUTES_PER_DAY_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes} мин
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className="text-xs text-slate-500">
+        {schedule.length > 0 && lastDay
+          ? `Задач: ${schedule.length}, дней: ${dayCount}, последний — ${lastDay.toLocaleDateString("ru-RU")}`
+          : weekdays.length === 0
+            ? "Выберите хотя бы один день недели."
+            : "Все задачи уже выполнены — планировать нечего."}
+      </p>
+
+      <button
+        onClick={() => onDownload(options)}
+        disabled={!isValid}
+        className="w-full flex items-center justify-center px-3 py-2 bg-emerald-600 text-white rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <Download className="w-4 h-4 mr-1.5" />
+        Скачать .ics
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
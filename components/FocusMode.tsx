@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Target,
+  Pause,
+  Play,
+  RotateCcw,
+  SkipForward,
+  AlarmClock,
+  Check,
+  Coffee,
+  PartyPopper,
+} from "lucide-react";
+import { ActionItem, FocusSessionRecord } from "../types";
+import { getActionItemMinutes } from "../services/actionPlan";
+import { formatMinutes, orderActionItemsForSessions } from "../services/sessionPlanner";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface FocusModeProps {
+  items: ActionItem[];
+  /** Номера задач (как в плане и на фото) */
+  numbers: Map<string, number>;
+  /** Задача выполнена — отметка попадает в план и историю */
+  onCompleteItem: (id: string) => void;
+  /** Выход из режима; record — null, если пользователь ничего не успел сделать */
+  onClose: (record: FocusSessionRecord | null) => void;
+}
+
+/** Фаза таймера «помидора» */
+type TimerPhase = "work" | "break";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Длительность фаз таймера в секундах (классическая техника «Помидор») */
+const PHASE_SECONDS: Record<TimerPhase, number> = {
+  work: 25 * 60,
+  break: 5 * 60,
+};
+
+const PHASE_LABELS: Record<TimerPhase, string> = {
+  work: "Фокус",
+  break: "Перерыв",
+};
+
+const CATEGORY_LABELS: Record<ActionItem["category"], string> = {
+  Discard: "Убрать",
+  Organize: "Организовать",
+  Buy: "Купить",
+};
+
+/** Сессия короче минуты без выполненных задач в историю не записывается */
+const MIN_RECORDED_SECONDS = 60;
+
+/**
+ * Время для таймера: 24:59
+ */
+const formatTimer = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Полноэкранный режим фокуса: одна задача за раз и таймер «помидора».
+ * Задачи идут в порядке сессий уборки; «Позже» переносит задачу в конец очереди
+ */
+const FocusMode: React.FC<FocusModeProps> = ({ items, numbers, onCompleteItem, onClose }) => {
+  const [startedAt] = useState(() => new Date());
+  // Очередь фиксируется при входе: правки плана не перемешивают задачи во время работы
+  const [queue, setQueue] = useState<string[]>(() =>
+    orderActionItemsForSessions(items).map((item) => item.id)
+  );
+  const [totalCount] = useState(queue.length);
+  const [completedIds, setCompletedIds] = useState<string[]>([]);
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+  const [isFinished, setIsFinished] = useState(queue.length === 0);
+
+  // Таймер
+  const [phase, setPhase] = useState<TimerPhase>("work");
+  const [secondsLeft, setSecondsLeft] = useState(PHASE_SECONDS.work);
+  const [isRunning, setIsRunning] = useState(true);
+  const [focusedSeconds, setFocusedSeconds] = useState(0);
+  const [pomodoroCount, setPomodoroCount] = useState(0);
+
+  // Задачи, удаленные из плана во время работы, пропускаются
+  const current = useMemo(
+    () => queue.map((id) => items.find((item) => item.id === id)).find(Boolean),
+    [queue, items]
+  );
+
+  // Задачи кончились — показываем итог
+  useEffect(() => {
+    if (!current) setIsFinished(true);
+  }, [current]);
+
+  // Ход таймера; время работы считается только в фазе фокуса
+  useEffect(() => {
+    if (!isRunning || isFinished) return;
+    const timer = setInterval(() => {
+      setSecondsLeft((prev) => prev - 1);
+      if (phase === "work") setFocusedSeconds((prev) => prev + 1);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [isRunning, isFinished, phase]);
+
+  // Смена фазы: после фокуса — перерыв, после перерыва — снова фокус
+  useEffect(() => {
+    if (secondsLeft > 0) return;
+    const next: TimerPhase = phase === "work" ? "break" : "work";
+    if (phase === "work") setPomodoroCount((prev) => prev + 1);
+    setPhase(next);
+    setSecondsLeft(PHASE_SECONDS[next]);
+  }, [secondsLeft, phase]);
+
+  // Таймер виден во вкладке, даже когда пользователь ушел с экрана
+  const originalTitleRef = useRef(document.title);
+  useEffect(() => {
+    document.title = isFinished
+      ? originalTitleRef.current
+      : `${formatTimer(secondsLeft)} · ${PHASE_LABELS[phase]} — TidyAI`;
+  }, [secondsLeft, phase, isFinished]);
+
+  // Страница под режимом не прокручивается; заголовок вкладки восстанавливается при выходе
+  useEffect(() => {
+    const originalTitle = originalTitleRef.current;
+    const originalOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = originalOverflow;
+      document.title = originalTitle;
+    };
+  }, []);
+
+  /**
+   * Убирает задачу из очереди
+   */
+  const dequeue = useCallback((id: string) => {
+    setQueue((prev) => prev.filter((queuedId) => queuedId !== id));
+  }, []);
+
+  const handleDone = useCallback(() => {
+    if (!current) return;
+    onCompleteItem(current.id);
+    setCompletedIds((prev) => [...prev, current.id]);
+    dequeue(current.id);
+  }, [current, onCompleteItem, dequeue]);
+
+  const handleSkip = useCallback(() => {
+    if (!current) return;
+    setSkippedIds((prev) => [...prev, current.id]);
+    dequeue(current.id);
+  }, [current, dequeue]);
+
+  const handleSnooze = useCallback(() => {
+    if (!current) return;
+    setQueue((prev) => [...prev.filter((id) => id !== current.id), current.id]);
+  }, [current]);
+
+  const resetTimer = useCallback(() => {
+    setPhase("work");
+    setSecondsLeft(PHASE_SECONDS.work);
+  }, []);
+
+  /**
+   * Выход из итогового экрана: сессия записывается в историю
+   */
+  const handleClose = useCallback(() => {
+    const isEmpty = completedIds.length === 0 && focusedSeconds < MIN_RECORDED_SECONDS;
+    onClose(
+      isEmpty
+        ? null
+        : { startedAt, finishedAt: new Date(), focusedSeconds, completedIds, skippedIds }
+    );
+  }, [completedIds, skippedIds, focusedSeconds, startedAt, onClose]);
+
+  // Escape сначала показывает итог, повторное нажатие закрывает режим
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Escape") return;
+      if (isFinished) handleClose();
+      else setIsFinished(true);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isFinished, handleClose]);
+
+  const position = completedIds.length + skippedIds.length + 1;
+  const phaseProgress = 1 - secondsLeft / PHASE_SECONDS[phase];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-slate-900 text-white flex flex-col animate-fade-in"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Режим фокуса"
+    >
+      {/* Верхняя панель */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+        <span className="flex items-center font-semibold">
+          <Target className="w-5 h-5 mr-2 text-emerald-400" />
+          Режим фокуса
+        </span>
+        {!isFinished && (
+          <span className="text-sm text-slate-400">
+            Задача {Math.min(position, totalCount)} из {totalCount}
+          </span>
+        )}
+        <button
+          onClick={isFinished ? handleClose : () => setIsFinished(true)}
+          className="text-sm font-medium text-slate-300 hover:text-white transition-colors"
+        >
+          {isFinished ? "Закрыть" : "Завершить"}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center px-6 py-8">
+        {isFinished ? (
+          <FocusSummary
+            totalCount={totalCount}
+            completedCount={completedIds.length}
+            skippedCount={skippedIds.length}
+            focusedSeconds={focusedSeconds}
+            pomodoroCount={pomodoroCount}
+            onClose={handleClose}
+          />
+        ) : (
+          current && (
+            <div className="w-full max-w-xl flex flex-col items-center text-center">
+              {/* Таймер */}
+              <div className="relative w-40 h-40" role="timer" aria-live="off">
+                <svg className="w-full h-full -rotate-90" viewBox="0 0 36 36">
+                  <circle
+                    cx="18"
+                    cy="18"
+                    r="16"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    className="text-white/10"
+                  />
+                  <circle
+                    cx="18"
+                    cy="18"
+                    r="16"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    pathLength={100}
+                    strokeDasharray={`${phaseProgress * 100}, 100`}
+                    className={phase === "work" ? "text-emerald-400" : "text-sky-400"}
+                  />
+                </svg>
+                <div className="absolute inset-0 flex flex-col items-center justify-center">
+                  <span className="text-3xl font-bold tabular-nums">
+                    {formatTimer(secondsLeft)}
+                  </span>
+                  <span className="flex items-center text-xs uppercase tracking-wide text-slate-400">
+                    {phase === "break" && <Coffee className="w-3 h-3 mr-1" />}
+                    {PHASE_LABELS[phase]}
+                  </span>
+                </div>
+              </div>
+              <div className="mt-3 flex items-center space-x-2">
+                <button
+                  onClick={() => setIsRunning((prev) => !prev)}
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label={isRunning ? "Пауза" : "Продолжить"}
+                >
+                  {isRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={resetTimer}
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label="Начать отсчет заново"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+              {phase === "break" && (
+                <p className="mt-3 text-sm text-sky-300">
+                  Сделайте перерыв: встаньте, разомнитесь
+                </p>
+              )}
+
+              {/* Текущая задача */}
+              <div className="mt-10" aria-live="polite">
+                <p className="text-xs font-medium text-emerald-400 uppercase tracking-wide">
+                  {CATEGORY_LABELS[current.category]} · ~{getActionItemMinutes(current)} мин
+                </p>
+                <h2 className="mt-2 text-2xl sm:text-3xl font-bold">
+                  {numbers.get(current.id)}. {current.title}
+                </h2>
+                {current.description && (
+                  <p className="mt-3 text-slate-300 leading-relaxed">{current.description}</p>
+                )}
+              </div>
+
+              {/* Управление задачей */}
+              <div className="mt-10 flex flex-wrap items-center justify-center gap-3">
+                <button
+                  onClick={handleSkip}
+                  className="flex items-center px-4 py-2.5 rounded-xl text-slate-300 hover:bg-white/10 transition-colors"
+                >
+                  <SkipForward className="w-4 h-4 mr-2" />
+                  Пропустить
+                </button>
+                <button
+                  onClick={handleSnooze}
+                  disabled={queue.length < 2}
+                  className="flex items-center px-4 py-2.5 rounded-xl text-slate-300 hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                  title="Вернуться к задаче после остальных"
+                >
+                  <AlarmClock className="w-4 h-4 mr-2" />
+                  Позже
+                </button>
+                <button
+                  onClick={handleDone}
+                  className="flex items-center px-6 py-2.5 rounded-xl bg-emerald-500 font-semibold hover:bg-emerald-400 transition-colors"
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Готово
+                </button>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Итог режима фокуса
+ */
+interface FocusSummaryProps {
+  totalCount: number;
+  completedCount: number;
+  skippedCount: number;
+  focusedSeconds: number;
+  pomodoroCount: number;
+  onClose: () => void;
+}
+
+const FocusSummary: React.FC<FocusSummaryProps> = ({
+  totalCount,
+  completedCount,
+  skippedCount,
+  focusedSeconds,
+  pomodoroCount,
+  onClose,
+}) => {
+  const remainingCount = totalCount - completedCount - skippedCount;
+  const stats = [
+    { label: "Выполнено", value: `${completedCount} из ${totalCount}` },
+    { label: "Пропущено", value: String(skippedCount) },
+    { label: "Осталось", value: String(remainingCount) },
+    { label: "В фокусе", value: formatMinutes(Math.round(focusedSeconds / 60)) },
+  ];
+
+  return (
+    <div className="w-full max-w-md text-center">
+      <PartyPopper className="w-12 h-12 mx-auto text-emerald-400" />
+      <h2 className="mt-4 text-2xl font-bold">
+        {completedCount > 0 ? "Отличная работа!" : "Сессия завершена"}
+      </h2>
+      {pomodoroCount > 0 && (
+        <p className="mt-1 text-slate-400">Полных «помидоров»: {pomodoroCount}</p>
+      )}
+
+      <div className="mt-8 grid grid-cols-2 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-white/5 rounded-xl p-4">
+            <p className="text-2xl font-bold">{stat.value}</p>
+            <p className="text-xs uppercase tracking-wide text-slate-400 mt-1">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onClose}
+        className="mt-8 px-6 py-2.5 rounded-xl bg-emerald-500 font-semibold hover:bg-emerald-400 transition-colors"
+      >
+        Вернуться к плану
+      </button>
+    </div>
+  );
+};
+
+export default FocusMode;
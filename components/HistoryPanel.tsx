@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { History, Pencil, Trash2, Check, X, MessageCircle, Loader2, Timer } from "lucide-react";
+import { AnalysisSession } from "../types";
+import { deleteSession, listSessions, updateSession } from "../services/historyStore";
+import { formatMinutes } from "../services/sessionPlanner";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface HistoryPanelProps {
+  /** Открыть сохраненную сессию */
+  onOpenSession: (session: AnalysisSession) => void;
+  /** Вызывается после удаления сессии (например, чтобы сбросить открытую) */
+  onSessionDeleted: (id: string) => void;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const DATE_FORMAT = new Intl.DateTimeFormat("ru-RU", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpenSession, onSessionDeleted }) => {
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Загрузка списка сессий при открытии
+  useEffect(() => {
+    let cancelled = false;
+
+    listSessions()
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((error) => {
+        console.error("Ошибка загрузки истории:", error);
+        if (!cancelled) setLoadError("Не удалось загрузить историю анализов.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Переименование сессии
+   */
+  const handleRename = useCallback(async (id: string, label: string) => {
+    const updated = await updateSession(id, { label });
+    if (updated) {
+      setSessions((prev) => prev?.map((s) => (s.id === id ? updated : s)) ?? null);
+    }
+  }, []);
+
+  /**
+   * Удаление сессии с подтверждением
+   */
+  const handleDelete = useCallback(
+    async (id: string) => {
+      if (!window.confirm("Удалить этот анализ из истории?")) return;
+
+      await deleteSession(id);
+      setSessions((prev) => prev?.filter((s) => s.id !== id) ?? null);
+      onSessionDeleted(id);
+    },
+    [onSessionDeleted]
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center">
+        <History className="w-6 h-6 mr-2 text-emerald-500" />
+        История анализов
+      </h2>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {loadError}
+        </div>
+      )}
+
+      {/* Загрузка */}
+      {!sessions && !loadError && (
+        <div className="flex justify-center py-16 text-emerald-600">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
+      {/* Пустая история */}
+      {sessions?.length === 0 && (
+        <div className="p-8 text-center text-slate-400 bg-white rounded-xl border border-dashed border-slate-200">
+          Здесь появятся ваши анализы. Загрузите первое фото комнаты.
+        </div>
+      )}
+
+      {/* Список сессий */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {sessions?.map((session) => (
+          <SessionCard
+            key={session.id}
+            session={session}
+            onOpen={onOpenSession}
+            onRename={handleRename}
+            onDelete={handleDelete}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Карточка сохраненной сессии
+ */
+interface SessionCardProps {
+  session: AnalysisSession;
+  onOpen: (session: AnalysisSession) => void;
+  onRename: (id: string, label: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SessionCard: React.FC<SessionCardProps> = ({ session, onOpen, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(session.label);
+
+  // Сообщения во всех ветках переписки
+  const messageCount = session.threads.reduce((count, thread) => count + thread.messages.length, 0);
+  // Время в режиме фокуса по всем сессиям, в минутах
+  const focusMinutes = Math.round(
+    (session.focusSessions ?? []).reduce((total, record) => total + record.focusedSeconds, 0) / 60
+  );
+
+  /**
+   * Сохранение нового названия
+   */
+  const submitRename = useCallback(() => {
+    const label = draft.trim();
+    if (label && label !== session.label) {
+      onRename(session.id, label);
+    }
+    setIsEditing(false);
+  }, [draft, session.id, session.label, onRename]);
+
+  /**
+   * Отмена переименования
+   */
+  const cancelRename = useCallback(() => {
+    setDraft(session.label);
+    setIsEditing(false);
+  }, [session.label]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden flex flex-col">
+      {/* Миниатюра */}
+      <button
+        onClick={() => onOpen(session)}
+        className="aspect-video w-full bg-slate-100 overflow-hidden"
+        aria-label={`Открыть анализ «${session.label}»`}
+      >
+        <img
+          src={session.thumbnail}
+          alt={session.label}
+          className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+        />
+      </button>
+
+      <div className="p-4 flex-1 flex flex-col">
+        {/* Название */}
+        {isEditing ? (
+          <div className="flex items-center space-x-1">
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") submitRename();
+                if (e.key === "Escape") cancelRename();
+              }}
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              aria-label="Название анализа"
+              autoFocus
+            />
+            <button onClick={submitRename} aria-label="Сохранить название">
+              <Check className="w-4 h-4 text-emerald-600" />
+            </button>
+            <button onClick={cancelRename} aria-label="Отменить">
+              <X className="w-4 h-4 text-slate-400" />
+            </button>
+          </div>
+        ) : (
+          <h3 className="font-semibold text-slate-800 truncate">{session.label}</h3>
+        )}
+
+        <p className="text-xs text-slate-400 mt-1">{DATE_FORMAT.format(session.createdAt)}</p>
+
+        <div className="flex items-center text-xs text-slate-500 mt-3 space-x-3">
+          <span>Захламленность: {session.analysis.clutterLevel}%</span>
+          {messageCount > 0 && (
+            <span className="flex items-center">
+              <MessageCircle className="w-3 h-3 mr-1" />
+              {messageCount}
+            </span>
+          )}
+          {focusMinutes > 0 && (
+            <span className="flex items-center" title="Время в режиме фокуса">
+              <Timer className="w-3 h-3 mr-1" />
+              {formatMinutes(focusMinutes)}
+            </span>
+          )}
+        </div>
+
+        {/* Действия */}
+        <div className="mt-4 pt-3 border-t border-slate-50 flex items-center justify-between">
+          <button
+            onClick={() => onOpen(session)}
+            className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+          >
+            Открыть
+          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-1 text-slate-400 hover:text-slate-600"
+              aria-label="Переименовать"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              className="p-1 text-slate-400 hover:text-red-600"
+              aria-label="Удалить"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,57 +1,85 @@
 import React, { useCallback, useState } from "react";
-import { Upload, Image as ImageIcon, Loader2 } from "lucide-react";
+import { Upload, Image as ImageIcon, Loader2, AlertCircle } from "lucide-react";
+import { UploadedImage } from "../types";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  DEFAULT_PREPROCESSING_OPTIONS,
+  ImagePreprocessingOptions,
+  preprocessImage,
+} from "../services/imagePreprocessing";
 
 // ============================================================================
 // ТИПЫ
 // ============================================================================
 
 interface ImageUploadProps {
-  /** Коллбек, вызываемый после успешной загрузки с base64 изображения */
-  onImageSelected: (base64: string) => void;
+  /** Коллбек, вызываемый с подготовленными фото одной комнаты (уменьшенными, без метаданных) */
+  onImagesSelected: (images: UploadedImage[]) => void;
   /** Флаг состояния анализа (блокирует интерфейс) */
   isAnalyzing: boolean;
+  /** Настройки подготовки фото (размер, формат, качество) */
+  preprocessingOptions?: ImagePreprocessingOptions;
 }
 
 // ============================================================================
 // КОНСТАНТЫ
 // ============================================================================
 
-const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+/** Максимум фото одной комнаты в одном анализе */
+const MAX_PHOTOS = 6;
 
 // ============================================================================
 // КОМПОНЕНТ
 // ============================================================================
 
-const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isAnalyzing }) => {
+const ImageUpload: React.FC<ImageUploadProps> = ({
+  onImagesSelected,
+  isAnalyzing,
+  preprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS,
+}) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   /**
-   * Обрабатывает файл: проверяет тип и конвертирует в base64
+   * Обрабатывает пачку файлов: проверяет, уменьшает и перекодирует каждое фото
    */
-  const processFile = useCallback(
-    (file: File) => {
-      // Проверка типа файла
-      if (!file.type.startsWith("image/")) {
-        alert("Пожалуйста, загрузите файл изображения (JPEG, PNG, WebP или GIF)");
+  const processFiles = useCallback(
+    async (files: File[]) => {
+      if (files.length === 0) return;
+
+      if (files.length > MAX_PHOTOS) {
+        setError(`Можно загрузить не больше ${MAX_PHOTOS} фото одной комнаты.`);
         return;
       }
 
-      const reader = new FileReader();
-      
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        // Убираем data URL префикс (data:image/jpeg;base64,) для API
-        const base64 = result.split(",")[1];
-        onImageSelected(base64);
-      };
-      
-      reader.onerror = () => {
-        alert("Ошибка чтения файла. Попробуйте другое изображение.");
-      };
-
-      reader.readAsDataURL(file);
+      setError(null);
+      setIsProcessing(true);
+
+      try {
+        const images: UploadedImage[] = [];
+        for (const file of files) {
+          try {
+            images.push(await preprocessImage(file, preprocessingOptions));
+          } catch (fileError) {
+            // Уточняем, какой именно файл не подошел
+            const reason = fileError instanceof Error ? fileError.message : String(fileError);
+            throw new Error(files.length > 1 ? `${file.name}: ${reason}` : reason);
+          }
+        }
+        onImagesSelected(images);
+      } catch (processingError) {
+        console.error("Ошибка подготовки изображения:", processingError);
+        setError(
+          processingError instanceof Error
+            ? processingError.message
+            : "Ошибка чтения файла. Попробуйте другое изображение."
+        );
+      } finally {
+        setIsProcessing(false);
+      }
     },
-    [onImageSelected]
+    [onImagesSelected, preprocessingOptions]
   );
 
   /**
@@ -62,12 +90,9 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isAnalyzing
       event.preventDefault();
       setIsDragging(false);
 
-      const file = event.dataTransfer.files?.[0];
-      if (file) {
-        processFile(file);
-      }
+      processFiles(Array.from(event.dataTransfer.files ?? []));
     },
-    [processFile]
+    [processFiles]
   );
 
   /**
@@ -91,14 +116,15 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isAnalyzing
    */
   const handleFileChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (file) {
-        processFile(file);
-      }
+      processFiles(Array.from(event.target.files ?? []));
+      // Сбрасываем значение, чтобы можно было выбрать тот же файл повторно
+      event.target.value = "";
     },
-    [processFile]
+    [processFiles]
   );
 
+  const isBusy = isAnalyzing || isProcessing;
+
   // Динамические классы для разных состояний
   const containerClasses = [
     "relative w-full max-w-2xl mx-auto h-64",
@@ -107,50 +133,72 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isAnalyzing
     "transition-all duration-300 cursor-pointer",
     isDragging
       ? "border-emerald-500 bg-emerald-50 scale-105"
-      : "border-slate-300 hover:border-emerald-400 hover:bg-slate-50",
-    isAnalyzing ? "opacity-50 pointer-events-none" : "",
+      : error
+        ? "border-red-300 hover:border-red-400 hover:bg-slate-50"
+        : "border-slate-300 hover:border-emerald-400 hover:bg-slate-50",
+    isBusy ? "opacity-50 pointer-events-none" : "",
   ].join(" ");
 
   return (
-    <div
-      onDrop={handleDrop}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      className={containerClasses}
-    >
-      {/* Скрытый input для выбора файла */}
-      <input
-        type="file"
-        accept={ACCEPTED_IMAGE_TYPES.join(",")}
-        onChange={handleFileChange}
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-        disabled={isAnalyzing}
-        aria-label="Загрузить изображение"
-      />
-
-      {isAnalyzing ? (
-        // Состояние загрузки
-        <div className="flex flex-col items-center text-emerald-600">
-          <Loader2 className="w-10 h-10 animate-spin mb-4" />
-          <p className="font-medium animate-pulse">Анализируем ваше пространство...</p>
-        </div>
-      ) : (
-        // Состояние ожидания
-        <div className="flex flex-col items-center text-slate-500 p-4 text-center">
-          <div className="w-16 h-16 bg-white rounded-full shadow-sm flex items-center justify-center mb-4">
-            {isDragging ? (
-              <ImageIcon className="w-8 h-8 text-emerald-500" />
-            ) : (
-              <Upload className="w-8 h-8 text-slate-400" />
-            )}
+    <div className="w-full max-w-2xl mx-auto">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={containerClasses}
+      >
+        {/* Скрытый input для выбора файла */}
+        <input
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          multiple
+          onChange={handleFileChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          disabled={isBusy}
+          aria-label="Загрузить изображение"
+          aria-invalid={!!error}
+          aria-describedby={error ? "image-upload-error" : undefined}
+        />
+
+        {isBusy ? (
+          // Состояние загрузки
+          <div className="flex flex-col items-center text-emerald-600">
+            <Loader2 className="w-10 h-10 animate-spin mb-4" />
+            <p className="font-medium animate-pulse">
+              {isAnalyzing ? "Анализируем ваше пространство..." : "Подготавливаем фото..."}
+            </p>
+          </div>
+        ) : (
+          // Состояние ожидания
+          <div className="flex flex-col items-center text-slate-500 p-4 text-center">
+            <div className="w-16 h-16 bg-white rounded-full shadow-sm flex items-center justify-center mb-4">
+              {isDragging ? (
+                <ImageIcon className="w-8 h-8 text-emerald-500" />
+              ) : (
+                <Upload className="w-8 h-8 text-slate-400" />
+              )}
+            </div>
+            <h3 className="text-lg font-semibold text-slate-700 mb-1">
+              Загрузите фото комнаты
+            </h3>
+            <p className="text-sm text-slate-400 max-w-xs">
+              Перетащите или нажмите для выбора. Можно выбрать до {MAX_PHOTOS} фото с разных
+              ракурсов.
+            </p>
           </div>
-          <h3 className="text-lg font-semibold text-slate-700 mb-1">
-            Загрузите фото комнаты
-          </h3>
-          <p className="text-sm text-slate-400 max-w-xs">
-            Перетащите или нажмите для выбора. Мы поможем навести порядок.
-          </p>
-        </div>
+        )}
+      </div>
+
+      {/* Ошибка проверки файла */}
+      {error && (
+        <p
+          id="image-upload-error"
+          role="alert"
+          className="mt-3 flex items-center justify-center text-sm text-red-600"
+        >
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
       )}
     </div>
   );
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from "react";
+import { ActionItem, UploadedImage } from "../types";
+import { toDataUrl } from "../services/imagePreprocessing";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface PhotoGalleryProps {
+  images: UploadedImage[];
+  /** Фото, к которому относится задача под курсором (подсвечивается и показывается) */
+  highlightedIndex: number | null;
+  /** Задачи анализа: задачи с рамкой отмечаются на своем фото нумерованными маркерами */
+  actionItems?: ActionItem[];
+  /** Задача, рамка которой выделена */
+  activeItemId?: string | null;
+  /** Клик по маркеру задачи */
+  onItemSelect?: (id: string) => void;
+}
+
+/** Задача с рамкой и ее номером в плане */
+interface Annotation {
+  item: ActionItem;
+  number: number;
+}
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Галерея исходных фото комнаты: крупное фото и лента миниатюр
+ */
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({
+  images,
+  highlightedIndex,
+  actionItems = [],
+  activeItemId = null,
+  onItemSelect,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Подсвеченное фото временно заменяет выбранное
+  const activeIndex = highlightedIndex ?? selectedIndex;
+  const activeImage = images[activeIndex] ?? images[0];
+
+  // Рамки задач, относящихся к показанному фото (номер — позиция задачи в плане)
+  const annotations = useMemo<Annotation[]>(
+    () =>
+      actionItems
+        .map((item, index) => ({ item, number: index + 1 }))
+        .filter(({ item }) => item.boundingBox && (item.photoIndex ?? 0) === activeIndex),
+    [actionItems, activeIndex]
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Крупное фото: без обрезки, чтобы рамки совпадали с изображением */}
+      <div className="w-full rounded-xl overflow-hidden bg-slate-100 relative group">
+        <img
+          src={toDataUrl(activeImage)}
+          alt={images.length > 1 ? `Фото комнаты ${activeIndex + 1}` : "Загруженная комната"}
+          className="w-full h-auto block"
+        />
+        <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors pointer-events-none" />
+        {annotations.length > 0 && (
+          <AnnotationOverlay
+            annotations={annotations}
+            activeItemId={activeItemId}
+            onItemSelect={onItemSelect}
+          />
+        )}
+        {images.length > 1 && (
+          <span className="absolute top-2 left-2 text-xs font-medium bg-black/50 text-white px-2 py-0.5 rounded-full">
+            {activeIndex + 1} / {images.length}
+          </span>
+        )}
+      </div>
+
+      {/* Миниатюры */}
+      {images.length > 1 && (
+        <div className="flex space-x-2 overflow-x-auto scrollbar-hide">
+          {images.map((image, index) => {
+            const isHighlighted = index === highlightedIndex;
+            const isActive = index === activeIndex;
+
+            return (
+              <button
+                key={index}
+                onClick={() => setSelectedIndex(index)}
+                className={`flex-shrink-0 w-16 h-12 rounded-lg overflow-hidden border-2 transition-all ${
+                  isHighlighted
+                    ? "border-amber-400 ring-2 ring-amber-200"
+                    : isActive
+                      ? "border-emerald-500"
+                      : "border-transparent opacity-70 hover:opacity-100"
+                }`}
+                aria-label={`Показать фото ${index + 1}`}
+                aria-current={isActive}
+              >
+                <img src={toDataUrl(image)} alt="" className="w-full h-full object-cover" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Рамки задач с нумерованными маркерами поверх фото
+ */
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  activeItemId: string | null;
+  onItemSelect?: (id: string) => void;
+}
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
+  annotations,
+  activeItemId,
+  onItemSelect,
+}) => (
+  <div className="absolute inset-0">
+    {annotations.map(({ item, number }) => {
+      const box = item.boundingBox!;
+      const isActive = item.id === activeItemId;
+
+      return (
+        <div
+          key={item.id}
+          className={`absolute rounded-md border-2 transition-all pointer-events-none ${
+            isActive
+              ? "border-emerald-400 bg-emerald-400/15 z-10"
+              : `border-white/80 border-dashed ${item.completed ? "opacity-40" : ""}`
+          }`}
+          style={{
+            left: `${box.x * 100}%`,
+            top: `${box.y * 100}%`,
+            width: `${box.width * 100}%`,
+            height: `${box.height * 100}%`,
+          }}
+        >
+          <button
+            onClick={() => onItemSelect?.(item.id)}
+            className={`pointer-events-auto absolute top-1 left-1 w-6 h-6 rounded-full text-xs font-bold shadow flex items-center justify-center transition-transform hover:scale-110 ${
+              isActive ? "bg-emerald-500 text-white scale-110" : "bg-white text-slate-800"
+            }`}
+            aria-label={`Задача ${number}: ${item.title}`}
+            aria-pressed={isActive}
+            title={item.title}
+          >
+            {number}
+          </button>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default PhotoGallery;
@@ -0,0 +1,122 @@
+import React, { useMemo } from "react";
+import { Plus, Minus, Pencil, Undo2, ListChecks } from "lucide-react";
+import { ActionItem, PlanChange } from "../types";
+import { diffActionItems } from "../services/actionPlan";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface PlanChangeCardProps {
+  change: PlanChange;
+  /** Отмена изменения; без коллбека кнопка не показывается */
+  onUndo?: () => void;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const CATEGORY_LABELS: Record<ActionItem["category"], string> = {
+  Discard: "Убрать",
+  Organize: "Организовать",
+  Buy: "Купить",
+};
+
+const DIFFICULTY_LABELS: Record<ActionItem["difficulty"], string> = {
+  Easy: "Легко",
+  Medium: "Средне",
+  Hard: "Сложно",
+};
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Изменение плана, сделанное ассистентом: что добавлено, удалено и исправлено
+ */
+const PlanChangeCard: React.FC<PlanChangeCardProps> = ({ change, onUndo }) => {
+  const diff = useMemo(() => diffActionItems(change.before, change.after), [change]);
+  const isEmpty = diff.added.length + diff.removed.length + diff.changed.length === 0;
+
+  return (
+    <div
+      className={`mt-2 rounded-xl border border-slate-200 bg-slate-50 p-2 text-xs text-slate-700 ${
+        change.undone ? "opacity-60" : ""
+      }`}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center font-semibold text-slate-600">
+          <ListChecks className="w-3.5 h-3.5 mr-1" />
+          Изменения плана
+        </span>
+        {change.undone ? (
+          <span className="text-slate-400">Отменено</span>
+        ) : (
+          onUndo && (
+            <button
+              onClick={onUndo}
+              className="flex items-center font-medium text-slate-500 hover:text-emerald-600"
+            >
+              <Undo2 className="w-3.5 h-3.5 mr-1" />
+              Отменить
+            </button>
+          )
+        )}
+      </div>
+
+      <ul className={`space-y-0.5 ${change.undone ? "line-through" : ""}`}>
+        {diff.added.map((item) => (
+          <li key={`added-${item.id}`} className="flex items-start text-emerald-700">
+            <Plus className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span>
+              {item.title} <span className="text-slate-400">({CATEGORY_LABELS[item.category]})</span>
+            </span>
+          </li>
+        ))}
+        {diff.removed.map((item) => (
+          <li key={`removed-${item.id}`} className="flex items-start text-red-600">
+            <Minus className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span className="line-through">{item.title}</span>
+          </li>
+        ))}
+        {diff.changed.map(({ before, after }) => (
+          <li key={`changed-${after.id}`} className="flex items-start text-amber-700">
+            <Pencil className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span>
+              {after.title}
+              <span className="text-slate-400"> — {describeChanges(before, after)}</span>
+            </span>
+          </li>
+        ))}
+        {isEmpty && <li className="text-slate-500">Изменен порядок задач</li>}
+      </ul>
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Краткое описание правок задачи: «Организовать → Купить, Легко → Сложно»
+ */
+function describeChanges(before: ActionItem, after: ActionItem): string {
+  const parts: string[] = [];
+  if (before.title !== after.title) parts.push(`было «${before.title}»`);
+  if (before.category !== after.category) {
+    parts.push(`${CATEGORY_LABELS[before.category]} → ${CATEGORY_LABELS[after.category]}`);
+  }
+  if (before.difficulty !== after.difficulty) {
+    parts.push(`${DIFFICULTY_LABELS[before.difficulty]} → ${DIFFICULTY_LABELS[after.difficulty]}`);
+  }
+  if (before.description !== after.description) parts.push("новое описание");
+  if (!!before.completed !== !!after.completed) {
+    parts.push(after.completed ? "отмечена выполненной" : "снята отметка");
+  }
+  return parts.join(", ");
+}
+
+export default PlanChangeCard;
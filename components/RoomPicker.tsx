@@ -0,0 +1,126 @@
+import React, { useCallback, useState } from "react";
+import { Home, Check, X } from "lucide-react";
+import { Room } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface RoomPickerProps {
+  rooms: Room[];
+  /** Выбранная комната или null — «без комнаты» */
+  value: string | null;
+  onChange: (roomId: string | null) => void;
+  /** Создает комнату и возвращает ее (выбор новой комнаты — задача родителя) */
+  onCreateRoom: (name: string) => Promise<Room>;
+  disabled?: boolean;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Значение пункта «без комнаты» в выпадающем списке */
+const NO_ROOM = "";
+/** Значение пункта «новая комната» в выпадающем списке */
+const NEW_ROOM = "__new__";
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Выбор комнаты, к которой относится анализ
+ */
+const RoomPicker: React.FC<RoomPickerProps> = ({
+  rooms,
+  value,
+  onChange,
+  onCreateRoom,
+  disabled = false,
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  /**
+   * Обработка выбора в списке
+   */
+  const handleSelect = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const selected = event.target.value;
+      if (selected === NEW_ROOM) {
+        setIsCreating(true);
+        return;
+      }
+      onChange(selected === NO_ROOM ? null : selected);
+    },
+    [onChange]
+  );
+
+  /**
+   * Создание новой комнаты
+   */
+  const submitRoom = useCallback(async () => {
+    const name = draft.trim();
+    if (!name) return;
+
+    const room = await onCreateRoom(name);
+    onChange(room.id);
+    setDraft("");
+    setIsCreating(false);
+  }, [draft, onCreateRoom, onChange]);
+
+  const cancelRoom = useCallback(() => {
+    setDraft("");
+    setIsCreating(false);
+  }, []);
+
+  if (isCreating) {
+    return (
+      <div className="flex items-center space-x-2">
+        <Home className="w-4 h-4 text-slate-400 flex-shrink-0" />
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitRoom();
+            if (e.key === "Escape") cancelRoom();
+          }}
+          placeholder="Название комнаты"
+          className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          aria-label="Название новой комнаты"
+          autoFocus
+        />
+        <button onClick={submitRoom} aria-label="Создать комнату">
+          <Check className="w-4 h-4 text-emerald-600" />
+        </button>
+        <button onClick={cancelRoom} aria-label="Отменить">
+          <X className="w-4 h-4 text-slate-400" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <label className="flex items-center space-x-2 text-sm text-slate-600">
+      <Home className="w-4 h-4 text-slate-400 flex-shrink-0" />
+      <span className="whitespace-nowrap">Комната:</span>
+      <select
+        value={value ?? NO_ROOM}
+        onChange={handleSelect}
+        disabled={disabled}
+        className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+      >
+        <option value={NO_ROOM}>Без комнаты</option>
+        {rooms.map((room) => (
+          <option key={room.id} value={room.id}>
+            {room.name}
+          </option>
+        ))}
+        <option value={NEW_ROOM}>+ Новая комната…</option>
+      </select>
+    </label>
+  );
+};
+
+export default RoomPicker;
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { TrendingDown, TrendingUp, Minus, CheckCircle2 } from "lucide-react";
+import { AnalysisSession, RoomAnalysis } from "../types";
+import { listRoomSessions } from "../services/historyStore";
+import { compareAnalyses } from "../services/progressTracker";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface RoomProgressProps {
+  roomId: string;
+  roomName: string;
+  /** Текущая сессия (сравнивается с предыдущей сессией этой комнаты) */
+  currentSessionId: string | null;
+  currentAnalysis: RoomAnalysis;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const SHORT_DATE_FORMAT = new Intl.DateTimeFormat("ru-RU", { day: "numeric", month: "short" });
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Сравнение «до/после» с прошлым анализом той же комнаты и график захламленности
+ */
+const RoomProgress: React.FC<RoomProgressProps> = ({
+  roomId,
+  roomName,
+  currentSessionId,
+  currentAnalysis,
+}) => {
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+
+  // Загрузка анализов комнаты
+  useEffect(() => {
+    let cancelled = false;
+
+    listRoomSessions(roomId)
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((error) => console.error("Ошибка загрузки анализов комнаты:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, currentSessionId]);
+
+  // Предыдущий анализ — последний из сделанных до текущего
+  const previous = useMemo(() => {
+    const currentIndex = sessions.findIndex((s) => s.id === currentSessionId);
+    const earlier = currentIndex === -1 ? sessions : sessions.slice(0, currentIndex);
+    return earlier[earlier.length - 1] ?? null;
+  }, [sessions, currentSessionId]);
+
+  const comparison = useMemo(
+    () => (previous ? compareAnalyses(previous.analysis, currentAnalysis) : null),
+    [previous, currentAnalysis]
+  );
+
+  // Данные для графика захламленности по времени
+  const chartData = useMemo(
+    () =>
+      sessions.map((session) => ({
+        date: SHORT_DATE_FORMAT.format(session.createdAt),
+        clutter:
+          session.id === currentSessionId
+            ? currentAnalysis.clutterLevel
+            : session.analysis.clutterLevel,
+      })),
+    [sessions, currentSessionId, currentAnalysis.clutterLevel]
+  );
+
+  // Первый анализ комнаты — сравнивать пока не с чем
+  if (!previous || !comparison) return null;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h3 className="text-lg font-semibold text-slate-800">Прогресс: {roomName}</h3>
+        <span className="text-xs text-slate-400">
+          Сравнение с анализом от {SHORT_DATE_FORMAT.format(previous.createdAt)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Изменение захламленности */}
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">Захламленность</p>
+          <div className="flex items-baseline space-x-2">
+            <span className="text-slate-400">{previous.analysis.clutterLevel}%</span>
+            <span className="text-slate-300">→</span>
+            <span className="text-2xl font-bold text-slate-800">{currentAnalysis.clutterLevel}%</span>
+          </div>
+          <DeltaBadge delta={comparison.clutterDelta} lowerIsBetter />
+        </div>
+
+        {/* Изменение долей пространства */}
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">Пространство</p>
+          <ul className="space-y-1">
+            {comparison.utilizationChanges.map((change) => (
+              <li key={change.name} className="flex items-center justify-between text-sm">
+                <span className="text-slate-600">{change.name}</span>
+                <span className="text-slate-500">
+                  {change.before}% → {change.after}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Выполненные задачи */}
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">
+            Похоже, выполнено ({comparison.resolvedItems.length} из{" "}
+            {previous.analysis.actionItems.length})
+          </p>
+          {comparison.resolvedItems.length > 0 ? (
+            <ul className="space-y-1">
+              {comparison.resolvedItems.map((item) => (
+                <li key={item.id} className="flex items-start text-sm text-slate-600">
+                  <CheckCircle2 className="w-4 h-4 mr-2 mt-0.5 text-emerald-500 flex-shrink-0" />
+                  {item.title}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-400">Прошлые задачи пока актуальны</p>
+          )}
+        </div>
+      </div>
+
+      {/* График захламленности по времени */}
+      <div style={{ width: "100%", height: 200, position: "relative" }}>
+        <ResponsiveContainer width="99%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+            <XAxis dataKey="date" tick={{ fontSize: 12, fill: "#94a3b8" }} />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 12, fill: "#94a3b8" }} />
+            <Tooltip
+              formatter={(value) => [`${value}%`, "Захламленность"]}
+              contentStyle={{
+                borderRadius: "8px",
+                border: "none",
+                boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+              }}
+            />
+            <Line
+              type="monotone"
+              dataKey="clutter"
+              stroke="#10b981"
+              strokeWidth={2}
+              dot={{ r: 4, fill: "#10b981" }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Бейдж изменения значения
+ */
+interface DeltaBadgeProps {
+  delta: number;
+  /** Уменьшение значения — это улучшение */
+  lowerIsBetter?: boolean;
+}
+
+const DeltaBadge: React.FC<DeltaBadgeProps> = ({ delta, lowerIsBetter = false }) => {
+  if (delta === 0) {
+    return (
+      <span className="inline-flex items-center mt-2 text-xs text-slate-500">
+        <Minus className="w-3 h-3 mr-1" />
+        Без изменений
+      </span>
+    );
+  }
+
+  const improved = lowerIsBetter ? delta < 0 : delta > 0;
+  const Icon = delta < 0 ? TrendingDown : TrendingUp;
+
+  return (
+    <span
+      className={`inline-flex items-center mt-2 text-xs font-medium px-2 py-0.5 rounded-full ${
+        improved ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"
+      }`}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {delta > 0 ? "+" : ""}
+      {delta}%
+    </span>
+  );
+};
+
+export default RoomProgress;
@@ -0,0 +1,345 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  CalendarClock,
+  Plus,
+  X,
+  Play,
+  ArrowLeft,
+  SkipForward,
+  Check,
+  PartyPopper,
+} from "lucide-react";
+import { ActionItem } from "../types";
+import { getActionItemMinutes } from "../services/actionPlan";
+import { formatMinutes, planCleaningSessions, TimeSlot } from "../services/sessionPlanner";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface SessionPlannerProps {
+  items: ActionItem[];
+  /** Номера задач (как в плане и на фото) */
+  numbers: Map<string, number>;
+  /** Задача выполнена в ходе сессии */
+  onCompleteItem: (id: string) => void;
+}
+
+/** Запущенная сессия: набор задач фиксируется при старте, чтобы шаги не сдвигались */
+interface ActiveSession {
+  label: string;
+  itemIds: string[];
+}
+
+/** Итог шага сессии */
+type StepResult = "done" | "skipped";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Слоты по умолчанию: «30 минут сегодня / 2 часа в субботу» */
+const DEFAULT_SLOTS: Omit<TimeSlot, "id">[] = [
+  { label: "Сегодня", minutes: 30 },
+  { label: "Суббота", minutes: 120 },
+];
+
+/** Варианты длительности слота, в минутах */
+const SLOT_MINUTES_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240] as const;
+
+const CATEGORY_LABELS: Record<ActionItem["category"], string> = {
+  Discard: "Убрать",
+  Organize: "Организовать",
+  Buy: "Купить",
+};
+
+const createSlot = (slot: Omit<TimeSlot, "id">): TimeSlot => ({ ...slot, id: crypto.randomUUID() });
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Планировщик уборки: пользователь указывает, сколько времени у него есть,
+ * а задачи раскладываются по сессиям (сначала убрать, затем организовать, затем купить).
+ * Каждая сессия проходится по шагам — по одной задаче за раз
+ */
+const SessionPlanner: React.FC<SessionPlannerProps> = ({ items, numbers, onCompleteItem }) => {
+  const [slots, setSlots] = useState<TimeSlot[]>(() => DEFAULT_SLOTS.map(createSlot));
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+
+  const plan = useMemo(() => planCleaningSessions(items, slots), [items, slots]);
+
+  const updateSlot = useCallback((id: string, patch: Partial<TimeSlot>) => {
+    setSlots((current) => current.map((slot) => (slot.id === id ? { ...slot, ...patch } : slot)));
+  }, []);
+
+  const removeSlot = useCallback((id: string) => {
+    setSlots((current) => current.filter((slot) => slot.id !== id));
+  }, []);
+
+  const addSlot = useCallback(() => {
+    setSlots((current) => [...current, createSlot({ label: "", minutes: 60 })]);
+  }, []);
+
+  if (activeSession) {
+    return (
+      <SessionFlow
+        session={activeSession}
+        items={items}
+        numbers={numbers}
+        onCompleteItem={onCompleteItem}
+        onExit={() => setActiveSession(null)}
+      />
+    );
+  }
+
+  const pendingCount = items.filter((item) => !item.completed).length;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+      <h3 className="text-sm font-semibold text-slate-700 mb-1 flex items-center">
+        <CalendarClock className="w-4 h-4 mr-2 text-emerald-500" />
+        Сессии уборки
+      </h3>
+      <p className="text-xs text-slate-500 mb-3">Сколько времени у вас есть?</p>
+
+      {/* Слоты времени */}
+      <div className="space-y-2">
+        {slots.map((slot) => (
+          <div key={slot.id} className="flex items-center space-x-2">
+            <input
+              value={slot.label}
+              onChange={(e) => updateSlot(slot.id, { label: e.target.value })}
+              placeholder="Когда"
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              aria-label="Когда"
+            />
+            <select
+              value={slot.minutes}
+              onChange={(e) => updateSlot(slot.id, { minutes: Number(e.target.value) })}
+              className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-sm"
+              aria-label="Сколько времени"
+            >
+              {SLOT_MINUTES_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {formatMinutes(minutes)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => removeSlot(slot.id)}
+              className="p-1 text-slate-400 hover:text-slate-700"
+              aria-label="Удалить время"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addSlot}
+          className="flex items-center text-xs font-medium text-slate-400 hover:text-emerald-600 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Добавить время
+        </button>
+      </div>
+
+      {/* Сессии */}
+      <div className="mt-4 space-y-3">
+        {pendingCount === 0 && (
+          <p className="text-sm text-slate-400">Все задачи выполнены — планировать нечего.</p>
+        )}
+
+        {plan.sessions.map((session, index) => (
+          <div key={session.slot.id} className="rounded-lg border border-slate-100 p-3">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">
+                  {session.slot.label.trim() || `Сессия ${index + 1}`}
+                </p>
+                <p className="text-xs text-slate-500">
+                  Задач: {session.items.length} · {formatMinutes(session.totalMinutes)} из{" "}
+                  {formatMinutes(session.slot.minutes)}
+                </p>
+              </div>
+              <button
+                onClick={() =>
+                  setActiveSession({
+                    label: session.slot.label.trim() || `Сессия ${index + 1}`,
+                    itemIds: session.items.map((item) => item.id),
+                  })
+                }
+                className="ml-2 flex items-center px-2.5 py-1 text-xs font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+              >
+                <Play className="w-3.5 h-3.5 mr-1" />
+                Начать
+              </button>
+            </div>
+            <ol className="mt-2 space-y-1">
+              {session.items.map((item) => (
+                <li key={item.id} className="flex text-xs text-slate-600">
+                  <span className="w-5 flex-shrink-0 text-slate-400">{numbers.get(item.id)}.</span>
+                  <span className="flex-1 min-w-0 truncate">{item.title}</span>
+                  <span className="ml-2 text-slate-400">{getActionItemMinutes(item)} мин</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+
+        {plan.unscheduled.length > 0 && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2">
+            Не хватило времени на задачи: {plan.unscheduled.length} (
+            {formatMinutes(
+              plan.unscheduled.reduce((sum, item) => sum + getActionItemMinutes(item), 0)
+            )}
+            ). Добавьте время или разбейте длинные задачи на шаги.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Пошаговое прохождение сессии: одна задача на экране, «Готово» отмечает ее в плане
+ */
+interface SessionFlowProps {
+  session: ActiveSession;
+  items: ActionItem[];
+  numbers: Map<string, number>;
+  onCompleteItem: (id: string) => void;
+  onExit: () => void;
+}
+
+const SessionFlow: React.FC<SessionFlowProps> = ({
+  session,
+  items,
+  numbers,
+  onCompleteItem,
+  onExit,
+}) => {
+  const [step, setStep] = useState(0);
+  const [results, setResults] = useState<Record<string, StepResult>>({});
+
+  // Задачи берутся из актуального плана: удаленные во время сессии пропадают из шагов
+  const steps = useMemo(
+    () =>
+      session.itemIds
+        .map((id) => items.find((item) => item.id === id))
+        .filter((item): item is ActionItem => item !== undefined),
+    [session.itemIds, items]
+  );
+
+  const finishStep = useCallback(
+    (item: ActionItem, result: StepResult) => {
+      if (result === "done") onCompleteItem(item.id);
+      setResults((current) => ({ ...current, [item.id]: result }));
+      setStep((current) => current + 1);
+    },
+    [onCompleteItem]
+  );
+
+  const current = steps[step];
+
+  // Итог сессии
+  if (!current) {
+    const doneCount = steps.filter((item) => results[item.id] === "done").length;
+    const skipped = steps.filter((item) => results[item.id] === "skipped");
+
+    return (
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 text-center">
+        <PartyPopper className="w-8 h-8 mx-auto text-emerald-500 mb-2" />
+        <h3 className="font-semibold text-slate-800">Сессия «{session.label}» завершена</h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Выполнено: {doneCount} из {steps.length}
+        </p>
+        {skipped.length > 0 && (
+          <p className="text-xs text-slate-400 mt-2">
+            Пропущено: {skipped.map((item) => `${numbers.get(item.id)}. ${item.title}`).join(", ")}
+          </p>
+        )}
+        <button
+          onClick={onExit}
+          className="mt-4 px-4 py-2 text-sm font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+        >
+          К плану
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100">
+      {/* Заголовок и прогресс */}
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span className="font-medium text-slate-700">{session.label}</span>
+        <span>
+          Шаг {step + 1} из {steps.length}
+        </span>
+        <button
+          onClick={onExit}
+          className="p-1 text-slate-400 hover:text-slate-700"
+          aria-label="Выйти из сессии"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="h-1 bg-slate-100 rounded-full mt-2 overflow-hidden">
+        <div
+          className="h-full bg-emerald-500 transition-all duration-500"
+          style={{ width: `${(step / steps.length) * 100}%` }}
+        />
+      </div>
+
+      {/* Текущая задача */}
+      <div className="mt-5" aria-live="polite">
+        <p className="text-xs font-medium text-emerald-600 uppercase tracking-wide">
+          {CATEGORY_LABELS[current.category]} · ~{getActionItemMinutes(current)} мин
+        </p>
+        <h4 className="mt-1 text-lg font-semibold text-slate-800">
+          {numbers.get(current.id)}. {current.title}
+        </h4>
+        {current.description && (
+          <p className="mt-2 text-sm text-slate-600 leading-relaxed">{current.description}</p>
+        )}
+        {current.completed && (
+          <p className="mt-2 text-xs text-emerald-600">Уже отмечена как выполненная</p>
+        )}
+      </div>
+
+      {/* Управление */}
+      <div className="mt-5 flex items-center">
+        <button
+          onClick={() => setStep((value) => value - 1)}
+          disabled={step === 0}
+          className="p-2 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+          aria-label="Предыдущий шаг"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => finishStep(current, "skipped")}
+          className="ml-auto flex items-center px-3 py-2 text-sm font-medium text-slate-600 rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          <SkipForward className="w-4 h-4 mr-1" />
+          Пропустить
+        </button>
+        <button
+          onClick={() => finishStep(current, "done")}
+          className="ml-2 flex items-center px-3 py-2 text-sm font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+        >
+          <Check className="w-4 h-4 mr-1" />
+          Готово
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPlanner;
@@ -0,0 +1,79 @@
+import React, { useMemo } from "react";
+import { Eye, X } from "lucide-react";
+import { SharedPlan } from "../types";
+import { getSharedPlanImages } from "../services/planShare";
+import AnalysisDashboard from "./AnalysisDashboard";
+import ExportMenu from "./ExportMenu";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface SharedPlanViewProps {
+  plan: SharedPlan;
+  /** Закрыть план и вернуться к загрузке фото */
+  onClose: () => void;
+}
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * План, открытый по ссылке или из файла: только просмотр, без отметок и чата.
+ * Анализ не запускается заново — получателю не нужен ключ API
+ */
+const SharedPlanView: React.FC<SharedPlanViewProps> = ({ plan, onClose }) => {
+  const images = useMemo(() => getSharedPlanImages(plan), [plan]);
+  const sharedAt = new Date(plan.sharedAt).toLocaleDateString("ru-RU", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Плашка режима просмотра */}
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-slate-100 flex items-center">
+        {plan.thumbnail && (
+          <img
+            src={plan.thumbnail}
+            alt="Фото комнаты"
+            className="w-16 h-16 object-cover rounded-lg border border-slate-200 mr-4 flex-shrink-0"
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="flex items-center font-semibold text-slate-800">
+            <Eye className="w-4 h-4 mr-2 text-sky-600" />
+            План только для просмотра
+          </p>
+          <p className="text-sm text-slate-500 mt-1">
+            Поделились {sharedAt}. Отметки выполнения и чат с ассистентом здесь недоступны —
+            загрузите свои фото, чтобы получить собственный план.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-4 p-2 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-50 transition-colors"
+          aria-label="Закрыть план"
+          title="Закрыть"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <AnalysisDashboard
+        analysis={plan.analysis}
+        planActions={
+          <ExportMenu
+            analysis={plan.analysis}
+            images={images}
+            planId={`shared-${Date.parse(plan.sharedAt)}`}
+          />
+        }
+      />
+    </div>
+  );
+};
+
+export default SharedPlanView;
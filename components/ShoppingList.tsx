@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ShoppingCart,
+  CheckCircle2,
+  Circle,
+  Copy,
+  Check,
+  FileText,
+  Loader2,
+  Layers,
+} from "lucide-react";
+import { AnalysisSession } from "../types";
+import { listSessions, updateSession } from "../services/historyStore";
+import { setActionItemCompleted } from "../services/actionPlan";
+import { downloadFile, formatDateInput } from "../services/planExport";
+import {
+  buildShoppingList,
+  buildShoppingListMarkdown,
+  collectShoppingEntries,
+  formatPriceRange,
+  getShoppingTotals,
+  isPartiallyPurchased,
+  ShoppingListLine,
+} from "../services/shoppingList";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface ShoppingListProps {
+  /** Открыть анализ, из которого покупка */
+  onOpenSession: (session: AnalysisSession) => void;
+  /** Вызывается после отметки покупки — чтобы открытый анализ не разошелся с историей */
+  onSessionUpdated: (session: AnalysisSession) => void;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const COPY_FEEDBACK_MS = 2000;
+
+const ACTION_BUTTON_CLASSES =
+  "flex items-center px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors";
+
+// ============================================================================
+// КОМПОНЕНТ
+// ============================================================================
+
+/**
+ * Список покупок: задачи категории Buy из всех сохраненных анализов.
+ * Отметка «куплено» — это отметка выполнения задачи в ее анализе
+ */
+const ShoppingList: React.FC<ShoppingListProps> = ({ onOpenSession, onSessionUpdated }) => {
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [merge, setMerge] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  // Загрузка анализов при открытии
+  useEffect(() => {
+    let cancelled = false;
+
+    listSessions()
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((error) => {
+        console.error("Ошибка загрузки списка покупок:", error);
+        if (!cancelled) setLoadError("Не удалось загрузить список покупок.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Сброс отметки «Скопировано»
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPY_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const lines = useMemo(
+    () => buildShoppingList(collectShoppingEntries(sessions ?? []), merge),
+    [sessions, merge]
+  );
+  const totals = useMemo(() => getShoppingTotals(lines), [lines]);
+  const pendingCount = lines.filter((line) => !line.purchased).length;
+
+  /**
+   * Отметка покупки: строка может объединять задачи из нескольких анализов
+   */
+  const togglePurchased = useCallback(
+    async (line: ShoppingListLine) => {
+      const purchased = !line.purchased;
+      const sessionIds = new Set(line.entries.map((entry) => entry.sessionId));
+
+      for (const session of sessions ?? []) {
+        if (!sessionIds.has(session.id)) continue;
+
+        const actionItems = line.entries
+          .filter((entry) => entry.sessionId === session.id)
+          .reduce(
+            (items, entry) => setActionItemCompleted(items, entry.item.id, purchased),
+            session.analysis.actionItems
+          );
+
+        try {
+          const updated = await updateSession(session.id, {
+            analysis: { ...session.analysis, actionItems },
+          });
+          if (!updated) continue;
+          setSessions((prev) => prev?.map((s) => (s.id === updated.id ? updated : s)) ?? null);
+          onSessionUpdated(updated);
+        } catch (error) {
+          console.error("Не удалось отметить покупку:", error);
+        }
+      }
+    },
+    [sessions, onSessionUpdated]
+  );
+
+  const downloadMarkdown = useCallback(() => {
+    downloadFile(
+      `tidyai-shopping-${formatDateInput(new Date())}.md`,
+      buildShoppingListMarkdown(lines),
+      "text/markdown;charset=utf-8"
+    );
+  }, [lines]);
+
+  const copyList = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(buildShoppingListMarkdown(lines));
+      setCopied(true);
+    } catch (error) {
+      console.error("Не удалось скопировать список покупок:", error);
+    }
+  }, [lines]);
+
+  const openSession = useCallback(
+    (id: string) => {
+      const session = sessions?.find((s) => s.id === id);
+      if (session) onOpenSession(session);
+    },
+    [sessions, onOpenSession]
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center">
+          <ShoppingCart className="w-6 h-6 mr-2 text-emerald-500" />
+          Список покупок
+        </h2>
+        {lines.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <button onClick={copyList} className={ACTION_BUTTON_CLASSES}>
+              {copied ? (
+                <Check className="w-4 h-4 mr-1.5 text-emerald-600" />
+              ) : (
+                <Copy className="w-4 h-4 mr-1.5 text-slate-400" />
+              )}
+              {copied ? "Скопировано" : "Скопировать"}
+            </button>
+            <button onClick={downloadMarkdown} className={ACTION_BUTTON_CLASSES}>
+              <FileText className="w-4 h-4 mr-1.5 text-slate-400" />
+              Markdown
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {loadError}
+        </div>
+      )}
+
+      {/* Загрузка */}
+      {!sessions && !loadError && (
+        <div className="flex justify-center py-16 text-emerald-600">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
+      {/* Пустой список */}
+      {sessions && lines.length === 0 && (
+        <div className="p-8 text-center text-slate-400 bg-white rounded-xl border border-dashed border-slate-200">
+          Здесь появятся покупки из планов уборки. Пока ни в одном анализе покупать ничего не нужно.
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <>
+          {/* Итог и объединение */}
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-sm font-medium text-slate-800">
+                {pendingCount > 0 ? `Осталось купить: ${pendingCount}` : "Все куплено"}
+              </p>
+              {totals.length > 0 && (
+                <p className="text-xs text-slate-500 mt-0.5">
+                  Примерно {totals.map(formatPriceRange).join(" + ")}
+                </p>
+              )}
+            </div>
+            <label className="flex items-center text-sm text-slate-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={merge}
+                onChange={(e) => setMerge(e.target.checked)}
+                className="mr-2 accent-emerald-600"
+              />
+              Объединять одинаковые
+            </label>
+          </div>
+
+          {/* Строки списка */}
+          <ul className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-50">
+            {lines.map((line) => (
+              <ShoppingListRow
+                key={line.key}
+                line={line}
+                onToggle={togglePurchased}
+                onOpenSession={openSession}
+              />
+            ))}
+          </ul>
+
+          <p className="text-xs text-slate-400">
+            Цены и размеры примерные — по оценке ассистента на момент анализа.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ КОМПОНЕНТЫ
+// ============================================================================
+
+/**
+ * Строка списка покупок: тип вещи, количество, размеры, цена и анализы, из которых она
+ */
+interface ShoppingListRowProps {
+  line: ShoppingListLine;
+  onToggle: (line: ShoppingListLine) => void;
+  onOpenSession: (id: string) => void;
+}
+
+const ShoppingListRow: React.FC<ShoppingListRowProps> = ({ line, onToggle, onOpenSession }) => {
+  // Один анализ может дать несколько одинаковых покупок — ссылка на него одна
+  const sources = [
+    ...new Map(line.entries.map((entry) => [entry.sessionId, entry.sessionLabel] as const)),
+  ];
+
+  return (
+    <li className="flex items-start p-4">
+      <button
+        onClick={() => onToggle(line)}
+        className="mr-3 mt-0.5 flex-shrink-0"
+        aria-label={line.purchased ? "Отметить как некупленное" : "Отметить как купленное"}
+        aria-pressed={line.purchased}
+      >
+        {line.purchased ? (
+          <CheckCircle2 className="w-5 h-5 text-emerald-500" />
+        ) : (
+          <Circle className="w-5 h-5 text-slate-300 hover:text-emerald-400" />
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <p
+          className={`text-sm font-medium ${
+            line.purchased ? "text-slate-400 line-through" : "text-slate-800"
+          }`}
+        >
+          {line.itemType}
+          <span className="ml-2 text-slate-500 font-normal">× {line.quantity}</span>
+          {isPartiallyPurchased(line) && (
+            <span className="ml-2 text-xs font-normal text-emerald-600">
+              осталось {line.remainingQuantity}
+            </span>
+          )}
+          {line.entries.length > 1 && (
+            <span
+              className="ml-2 inline-flex items-center align-middle text-[10px] font-normal text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded-full"
+              title="Одинаковые покупки из разных задач объединены"
+            >
+              <Layers className="w-3 h-3 mr-1" />
+              {line.entries.length}
+            </span>
+          )}
+        </p>
+        {line.dimensions && <p className="text-xs text-slate-500 mt-0.5">{line.dimensions}</p>}
+        <div className="flex flex-wrap items-center gap-x-2 mt-1 text-xs text-slate-400">
+          {sources.map(([sessionId, label]) => (
+            <button
+              key={sessionId}
+              onClick={() => onOpenSession(sessionId)}
+              className="hover:text-emerald-600 underline decoration-dotted underline-offset-2"
+              title="Открыть анализ"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="ml-3 text-sm text-slate-600 whitespace-nowrap">
+        {line.prices.length > 0 ? line.prices.map(formatPriceRange).join(" + ") : "—"}
+      </p>
+    </li>
+  );
+};
+
+export default ShoppingList;
@@ -0,0 +1,482 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActionItem,
+  ChatMessage,
+  ChatSummary,
+  ChatThread,
+  RoomAnalysis,
+  UploadedImage,
+} from "../types";
+import { sendChatMessage, summarizeChat } from "../services/geminiService";
+import { revertActionItems } from "../services/actionPlan";
+import { toAIServiceError } from "../services/errors";
+import {
+  buildChatHistory,
+  createChatThread,
+  getMessageTextForModel,
+  getNextThreadTitle,
+  getPersistableThread,
+  messagesToContents,
+  revertPlanChanges,
+} from "../services/chatThreads";
+import {
+  CHAT_TOKEN_BUDGET,
+  ChatUsage,
+  estimateChatRequestTokens,
+  getCompactionEnd,
+} from "../services/chatBudget";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+interface UseChatThreadsOptions {
+  /** Фото комнаты для контекста чата */
+  images: UploadedImage[];
+  /** Анализ с текущим состоянием чек-листа: ассистент опирается на него в ответах */
+  analysis: RoomAnalysis;
+  /** Сохраненные ветки (при повторном открытии сессии из истории) */
+  initialThreads: ChatThread[];
+  /** Вызывается при каждом изменении веток (кроме момента генерации ответа) */
+  onThreadsChange?: (threads: ChatThread[]) => void;
+  /** Изменение плана ассистентом или отмена такого изменения; без коллбека ассистент план не меняет */
+  onActionItemsChange?: (items: ActionItem[]) => void;
+}
+
+/** Состояние переписки и действия над ней — то, что получает ChatInterface */
+export interface ChatThreadsController {
+  threads: ChatThread[];
+  activeThread: ChatThread;
+  /** Ветка, в которой сейчас генерируется ответ */
+  loadingThreadId: string | null;
+  isLoading: boolean;
+  /** Ассистент может менять план (и изменения можно отменять) */
+  canEditPlan: boolean;
+  /** Оценка размера следующего запроса в активной ветке */
+  usage: ChatUsage;
+  /** Идет сжатие ранней части переписки перед ответом */
+  isCompacting: boolean;
+  /** Отправка вопроса; к нему можно приложить фото (тогда текст необязателен) */
+  sendMessage: (text: string, image?: UploadedImage) => void;
+  /** Правка сообщения пользователя: переписка после него отбрасывается, ответ генерируется заново */
+  editMessage: (messageId: string, text: string) => void;
+  /** Новый вариант последнего ответа (в том числе неудавшегося) */
+  regenerate: (messageId: string) => void;
+  stop: () => void;
+  undoPlanChange: (messageId: string) => void;
+  createThread: () => void;
+  selectThread: (id: string) => void;
+  renameThread: (id: string, title: string) => void;
+  deleteThread: (id: string) => void;
+}
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Ветки при открытии анализа: сохраненные или одна пустая
+ */
+const getInitialThreads = (saved: ChatThread[]): ChatThread[] =>
+  saved.length > 0 ? saved : [createChatThread(getNextThreadTitle([]))];
+
+/**
+ * Ветка, с которой продолжаем: последняя измененная
+ */
+const getLatestThread = (threads: ChatThread[]): ChatThread =>
+  threads.reduce((latest, thread) =>
+    thread.updatedAt.getTime() > latest.updatedAt.getTime() ? thread : latest
+  );
+
+// ============================================================================
+// ХУК
+// ============================================================================
+
+/**
+ * Ветки переписки с ассистентом по одному анализу.
+ * Состояние живет в родителе чата, поэтому переписка и генерация ответа
+ * не теряются, когда чат скрывают и показывают снова
+ */
+export function useChatThreads({
+  images,
+  analysis,
+  initialThreads,
+  onThreadsChange,
+  onActionItemsChange,
+}: UseChatThreadsOptions): ChatThreadsController {
+  const [threads, setThreads] = useState<ChatThread[]>(() => getInitialThreads(initialThreads));
+  const [activeThreadId, setActiveThreadId] = useState(() => getLatestThread(threads).id);
+  const [loadingThreadId, setLoadingThreadId] = useState<string | null>(null);
+  const [isCompacting, setIsCompacting] = useState(false);
+  const isLoading = loadingThreadId !== null;
+  const canEditPlan = !!onActionItemsChange;
+
+  // Актуальные значения для асинхронных обработчиков
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  // Чек-лист меняется во время беседы; после отката обновляется сразу, не дожидаясь рендера
+  const analysisRef = useRef(analysis);
+  analysisRef.current = analysis;
+  const onActionItemsChangeRef = useRef(onActionItemsChange);
+  onActionItemsChangeRef.current = onActionItemsChange;
+  const onThreadsChangeRef = useRef(onThreadsChange);
+  onThreadsChangeRef.current = onThreadsChange;
+  const isFirstRenderRef = useRef(true);
+
+  // Контроллер остановки текущей генерации
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Останавливаем генерацию при закрытии анализа
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const activeThread = threads.find((thread) => thread.id === activeThreadId) ?? threads[0];
+
+  // Оценка следующего запроса активной ветки — для индикатора в заголовке чата
+  const usage = useMemo<ChatUsage>(
+    () => ({
+      tokens: estimateChatRequestTokens(
+        buildChatHistory(images, activeThread.messages, activeThread.summary),
+        analysis,
+        canEditPlan
+      ),
+      budget: CHAT_TOKEN_BUDGET,
+    }),
+    [images, activeThread, analysis, canEditPlan]
+  );
+
+  // Сообщаем об изменениях веток (первый рендер — это уже сохраненное состояние).
+  // Во время генерации не сообщаем: ответ меняется с каждым фрагментом
+  useEffect(() => {
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false;
+      return;
+    }
+    if (isLoading) return;
+    onThreadsChangeRef.current?.(threads.map(getPersistableThread));
+  }, [threads, isLoading]);
+
+  /**
+   * Заменяет сообщения ветки
+   */
+  const updateMessages = useCallback(
+    (threadId: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+      setThreads((prev) =>
+        prev.map((thread) =>
+          thread.id === threadId
+            ? { ...thread, messages: update(thread.messages), updatedAt: new Date() }
+            : thread
+        )
+      );
+    },
+    []
+  );
+
+  /**
+   * Обновляет поля ветки
+   */
+  const updateThread = useCallback((threadId: string, patch: Partial<ChatThread>) => {
+    setThreads((prev) =>
+      prev.map((thread) =>
+        thread.id === threadId ? { ...thread, ...patch, updatedAt: new Date() } : thread
+      )
+    );
+  }, []);
+
+  /**
+   * Обновляет поля одного сообщения
+   */
+  const patchMessage = useCallback(
+    (threadId: string, messageId: string, patch: Partial<ChatMessage>) => {
+      updateMessages(threadId, (messages) =>
+        messages.map((message) => (message.id === messageId ? { ...message, ...patch } : message))
+      );
+    },
+    [updateMessages]
+  );
+
+  /**
+   * Применяет новый план сразу, не дожидаясь, пока анализ вернется через пропсы
+   */
+  const applyActionItems = useCallback((items: ActionItem[]) => {
+    analysisRef.current = { ...analysisRef.current, actionItems: items };
+    onActionItemsChangeRef.current?.(items);
+  }, []);
+
+  /**
+   * Откатывает изменения плана из ответов, которые отбрасываются при правке или перегенерации
+   */
+  const discardMessages = useCallback(
+    (discarded: ChatMessage[]) => {
+      const hasPlanChanges = discarded.some(
+        (message) => message.planChange && !message.planChange.undone
+      );
+      if (!hasPlanChanges || !onActionItemsChangeRef.current) return;
+      applyActionItems(revertPlanChanges(analysisRef.current.actionItems, discarded));
+    },
+    [applyActionItems]
+  );
+
+  /**
+   * Сжимает раннюю часть переписки, если запрос не укладывается в бюджет токенов.
+   * Фото комнаты и анализ не сжимаются: они передаются в каждом запросе.
+   * Ошибка сжатия не мешает ответу — запрос уходит с прежней историей
+   * @returns краткое содержание, с которым отправлять запрос
+   */
+  const compactHistory = useCallback(
+    async (
+      threadId: string,
+      conversation: ChatMessage[],
+      summary: ChatSummary | undefined,
+      signal: AbortSignal
+    ): Promise<ChatSummary | undefined> => {
+      const tokens = estimateChatRequestTokens(
+        buildChatHistory(imagesRef.current, conversation, summary),
+        analysisRef.current,
+        !!onActionItemsChangeRef.current
+      );
+      if (tokens <= CHAT_TOKEN_BUDGET) return summary;
+
+      const prior = conversation.slice(0, -1);
+      const compactedCount = summary?.messageCount ?? 0;
+      const end = getCompactionEnd(prior, compactedCount);
+      if (end === null) return summary;
+
+      setIsCompacting(true);
+      try {
+        const text = await summarizeChat(
+          messagesToContents(prior.slice(compactedCount, end)),
+          summary?.text,
+          signal
+        );
+        const compacted: ChatSummary = { text, messageCount: end };
+        updateThread(threadId, { summary: compacted });
+        return compacted;
+      } catch (error) {
+        if (!signal.aborted) console.error("Не удалось сжать переписку:", error);
+        return summary;
+      } finally {
+        setIsCompacting(false);
+      }
+    },
+    [updateThread]
+  );
+
+  /**
+   * Запрашивает ответ на последнее сообщение переписки и показывает его по мере генерации
+   * @param conversation - сообщения ветки, последнее — вопрос пользователя
+   */
+  const requestReply = useCallback(
+    async (threadId: string, conversation: ChatMessage[]) => {
+      const question = conversation[conversation.length - 1];
+      const prior = conversation.slice(0, -1);
+      const replyId = `${Date.now()}-reply`;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      // Краткое содержание годится, только если все сжатые сообщения остались в переписке
+      // (правка раннего вопроса его отменяет)
+      const savedSummary = threadsRef.current.find((thread) => thread.id === threadId)?.summary;
+      let summary =
+        savedSummary && savedSummary.messageCount <= prior.length ? savedSummary : undefined;
+
+      updateThread(threadId, {
+        messages: [
+          ...conversation,
+          { id: replyId, role: "model", text: "", timestamp: new Date(), status: "streaming" },
+        ],
+        summary,
+      });
+      setLoadingThreadId(threadId);
+
+      // План до ответа — для показа изменений ассистента и их отмены
+      const planBefore = analysisRef.current.actionItems;
+
+      try {
+        summary = await compactHistory(threadId, conversation, summary, controller.signal);
+
+        const reply = await sendChatMessage(
+          buildChatHistory(imagesRef.current, prior, summary),
+          getMessageTextForModel(question),
+          {
+            analysis: analysisRef.current,
+            image: question.image,
+            signal: controller.signal,
+            onChunk: (text) => patchMessage(threadId, replyId, { text }),
+            // Изменения плана применяются сразу, дашборд обновляется во время ответа
+            onActionItemsChange: onActionItemsChangeRef.current ? applyActionItems : undefined,
+          }
+        );
+
+        patchMessage(threadId, replyId, {
+          text: reply.text,
+          status: controller.signal.aborted ? "stopped" : undefined,
+          planChange: reply.actionItems
+            ? { before: planBefore, after: reply.actionItems }
+            : undefined,
+        });
+      } catch (error) {
+        console.error("Ошибка отправки сообщения:", error);
+        const serviceError = toAIServiceError(error);
+        patchMessage(threadId, replyId, {
+          text: serviceError.message,
+          status: "error",
+          errorKind: serviceError.kind,
+        });
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        setLoadingThreadId(null);
+      }
+    },
+    [updateThread, patchMessage, applyActionItems, compactHistory]
+  );
+
+  /**
+   * Отправка нового сообщения в активную ветку
+   */
+  const sendMessage = useCallback(
+    (text: string, image?: UploadedImage) => {
+      const trimmed = text.trim();
+      if ((!trimmed && !image) || isLoading) return;
+
+      const userMessage: ChatMessage = {
+        id: Date.now().toString(),
+        role: "user",
+        text: trimmed,
+        timestamp: new Date(),
+        ...(image && { image }),
+      };
+      requestReply(activeThread.id, [...activeThread.messages, userMessage]);
+    },
+    [activeThread, isLoading, requestReply]
+  );
+
+  /**
+   * Правка сообщения пользователя и генерация ответа заново с этого места
+   */
+  const editMessage = useCallback(
+    (messageId: string, text: string) => {
+      const trimmed = text.trim();
+      if (isLoading) return;
+
+      const index = activeThread.messages.findIndex((message) => message.id === messageId);
+      const original = activeThread.messages[index];
+      // Текст можно убрать, только если к сообщению приложено фото
+      if (!original || original.role !== "user" || (!trimmed && !original.image)) return;
+
+      discardMessages(activeThread.messages.slice(index + 1));
+      requestReply(activeThread.id, [
+        ...activeThread.messages.slice(0, index),
+        { ...original, id: Date.now().toString(), text: trimmed, timestamp: new Date() },
+      ]);
+    },
+    [activeThread, isLoading, discardMessages, requestReply]
+  );
+
+  /**
+   * Новый вариант последнего ответа: прежний ответ и его изменения плана отбрасываются
+   */
+  const regenerate = useCallback(
+    (messageId: string) => {
+      if (isLoading) return;
+
+      const { messages } = activeThread;
+      const index = messages.findIndex((message) => message.id === messageId);
+      const isLastReply = index === messages.length - 1 && messages[index]?.role === "model";
+      if (!isLastReply || messages[index - 1]?.role !== "user") return;
+
+      discardMessages(messages.slice(index));
+      requestReply(activeThread.id, messages.slice(0, index));
+    },
+    [activeThread, isLoading, discardMessages, requestReply]
+  );
+
+  /**
+   * Остановка генерации ответа
+   */
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Отмена изменения плана, сделанного ассистентом в сообщении
+   */
+  const undoPlanChange = useCallback(
+    (messageId: string) => {
+      const change = activeThread.messages.find((message) => message.id === messageId)?.planChange;
+      if (!change || change.undone || !onActionItemsChangeRef.current) return;
+
+      applyActionItems(
+        revertActionItems(analysisRef.current.actionItems, change.before, change.after)
+      );
+      patchMessage(activeThread.id, messageId, { planChange: { ...change, undone: true } });
+    },
+    [activeThread, applyActionItems, patchMessage]
+  );
+
+  /**
+   * Новая пустая ветка становится активной
+   */
+  const createThread = useCallback(() => {
+    const thread = createChatThread(getNextThreadTitle(threadsRef.current));
+    setThreads((prev) => [...prev, thread]);
+    setActiveThreadId(thread.id);
+  }, []);
+
+  const selectThread = useCallback((id: string) => {
+    setActiveThreadId(id);
+  }, []);
+
+  const renameThread = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setThreads((prev) =>
+      prev.map((thread) => (thread.id === id ? { ...thread, title: trimmed } : thread))
+    );
+  }, []);
+
+  /**
+   * Удаление ветки. Изменения плана из нее остаются; последняя ветка заменяется пустой
+   */
+  const deleteThread = useCallback(
+    (id: string) => {
+      if (loadingThreadId === id) abortControllerRef.current?.abort();
+
+      const current = threadsRef.current;
+      const index = current.findIndex((thread) => thread.id === id);
+      if (index === -1) return;
+
+      const rest = current.filter((thread) => thread.id !== id);
+      const next = rest.length > 0 ? rest : [createChatThread(getNextThreadTitle([]))];
+      setThreads(next);
+
+      // Активной становится соседняя ветка
+      if (id === activeThread.id) {
+        setActiveThreadId(next[Math.min(index, next.length - 1)].id);
+      }
+    },
+    [activeThread, loadingThreadId]
+  );
+
+  return {
+    threads,
+    activeThread,
+    loadingThreadId,
+    isLoading,
+    canEditPlan,
+    usage,
+    isCompacting,
+    sendMessage,
+    editMessage,
+    regenerate,
+    stop,
+    undoPlanChange,
+    createThread,
+    selectThread,
+    renameThread,
+    deleteThread,
+  };
+}
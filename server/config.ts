@@ -0,0 +1,111 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { AIProviderId } from "../types";
+import { PROVIDER_IDS, VisionProviderSettings } from "../services/providers";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface ServerConfig {
+  port: number;
+  /** Провайдер, к которому сервер обращается от имени клиентов */
+  provider: VisionProviderSettings;
+  /** Запросов к /api с одного IP за окно */
+  rateLimit: { maxRequests: number; windowMs: number };
+  /** Максимальный размер тела запроса */
+  maxBodyBytes: number;
+  /** Каталог собранного приложения (vite build); если его нет, раздается только API */
+  staticDir: string;
+  /** Брать IP клиента из X-Forwarded-For (сервер стоит за обратным прокси) */
+  trustProxy: boolean;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 20;
+
+/**
+ * Запрос чата несет фото комнаты и фото из переписки (каждое после подготовки — до ~1 МБ в base64),
+ * поэтому лимит заметно больше размера одного фото
+ */
+const DEFAULT_MAX_BODY_MB = 15;
+
+/** Провайдеры, доступные серверу (прокси к самому себе не имеет смысла) */
+const SERVER_PROVIDER_IDS: AIProviderId[] = PROVIDER_IDS.filter((id) => id !== "proxy");
+
+// ============================================================================
+// ЧТЕНИЕ НАСТРОЕК
+// ============================================================================
+
+/**
+ * Положительное число из переменной окружения или значение по умолчанию
+ */
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (Number.isFinite(value) && value > 0) return value;
+
+  console.error(`❌ Некорректный ${name} "${raw}". Используется ${fallback}.`);
+  return fallback;
+}
+
+/**
+ * Провайдер из AI_PROVIDER (по умолчанию — gemini).
+ * Ключи читаются из переменных без префикса VITE_, поэтому Vite не встраивает их в сборку
+ */
+function readProviderSettings(): VisionProviderSettings {
+  const raw = process.env.AI_PROVIDER?.trim().toLowerCase() || "gemini";
+  if (!SERVER_PROVIDER_IDS.includes(raw as AIProviderId)) {
+    throw new Error(
+      `Неизвестный AI_PROVIDER "${raw}". Допустимые значения: ${SERVER_PROVIDER_IDS.join(", ")}.`
+    );
+  }
+
+  const id = raw as AIProviderId;
+  const settings: VisionProviderSettings = {
+    id,
+    model: process.env.AI_MODEL?.trim() || undefined,
+  };
+
+  if (id === "gemini") {
+    settings.apiKey = process.env.GEMINI_API_KEY?.trim();
+    if (!settings.apiKey) {
+      throw new Error("Не задан GEMINI_API_KEY. Добавьте его в .env или в окружение сервера.");
+    }
+  }
+  if (id === "openai") {
+    settings.baseUrl = process.env.OPENAI_BASE_URL?.trim();
+    settings.apiKey = process.env.OPENAI_API_KEY?.trim();
+  }
+
+  return settings;
+}
+
+/**
+ * Настройки сервера из окружения; файл .env в корне проекта подхватывается автоматически
+ * @throws Error, если провайдер не настроен
+ */
+export function loadServerConfig(): ServerConfig {
+  const envFile = path.resolve(".env");
+  if (existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+
+  return {
+    port: readNumber("PORT", DEFAULT_PORT),
+    provider: readProviderSettings(),
+    rateLimit: {
+      maxRequests: readNumber("RATE_LIMIT_PER_MINUTE", DEFAULT_RATE_LIMIT_PER_MINUTE),
+      windowMs: 60_000,
+    },
+    maxBodyBytes: readNumber("MAX_BODY_MB", DEFAULT_MAX_BODY_MB) * 1024 * 1024,
+    staticDir: path.resolve(process.env.STATIC_DIR?.trim() || "dist"),
+    trustProxy: process.env.TRUST_PROXY === "true",
+  };
+}
@@ -0,0 +1,99 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { AIErrorKind, ProxyError } from "../types";
+import { AIServiceError, HttpStatusError, toProxyError } from "../services/errors";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** HTTP-статус ответа для каждого вида ошибки AI-сервиса */
+const ERROR_STATUSES: Record<AIErrorKind, number> = {
+  region: 502,
+  quota: 429,
+  // Ключ принадлежит серверу: клиент тут ни при чем
+  auth: 502,
+  timeout: 504,
+  safety: 422,
+  parse: 502,
+  network: 502,
+  config: 500,
+  unknown: 500,
+};
+
+// ============================================================================
+// ЗАПРОС
+// ============================================================================
+
+/**
+ * IP клиента (за обратным прокси — первый адрес из X-Forwarded-For)
+ */
+export function getClientIp(request: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = request.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") {
+    return forwarded.split(",")[0].trim();
+  }
+  return request.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * Читает JSON из тела запроса, прерывая чтение при превышении лимита
+ * @throws HttpStatusError 413 для слишком большого тела, 400 для некорректного JSON
+ */
+export async function readJsonBody(request: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const declaredLength = Number(request.headers["content-length"]);
+  if (declaredLength > maxBytes) {
+    throw new HttpStatusError(413, "Слишком большой запрос");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpStatusError(413, "Слишком большой запрос");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpStatusError(400, "Тело запроса не является JSON");
+  }
+}
+
+// ============================================================================
+// ОТВЕТ
+// ============================================================================
+
+/**
+ * Отправляет JSON-ответ
+ */
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Отправляет ошибку в формате, который понимает провайдер-прокси на клиенте
+ */
+export function sendError(
+  response: ServerResponse,
+  status: number,
+  error: ProxyError,
+  headers?: Record<string, string>
+): void {
+  sendJson(response, status, { error }, headers);
+}
+
+/**
+ * Отправляет ошибку AI-сервиса с подходящим HTTP-статусом
+ */
+export function sendServiceError(response: ServerResponse, error: AIServiceError): void {
+  sendError(response, ERROR_STATUSES[error.kind], toProxyError(error));
+}
@@ -0,0 +1,69 @@
+import { createServer } from "node:http";
+import { createVisionProvider, setVisionProvider } from "../services/providers";
+import { loadServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimit";
+import { handleApiRequest } from "./routes";
+import { serveStatic } from "./static";
+import { sendError } from "./http";
+
+// ============================================================================
+// ЗАПУСК СЕРВЕРА
+// ============================================================================
+
+/**
+ * Сервер-прокси: принимает запросы приложения к модели и добавляет к ним ключ API,
+ * который не покидает сервер. Заодно раздает собранное приложение из dist/
+ */
+function main(): void {
+  const config = loadServerConfig();
+
+  const provider = createVisionProvider(config.provider);
+  const configError = provider.getConfigurationError();
+  if (configError) {
+    throw new Error(configError);
+  }
+  // Сервисы анализа и чата используют этот провайдер вместо переменных VITE_*
+  setVisionProvider(provider);
+
+  const limiter = createRateLimiter(config.rateLimit);
+
+  const server = createServer(async (request, response) => {
+    try {
+      const { pathname } = new URL(request.url ?? "/", "http://localhost");
+      if (pathname.startsWith("/api/")) {
+        await handleApiRequest(request, response, { config, limiter });
+        return;
+      }
+
+      const served =
+        request.method === "GET" && (await serveStatic(config.staticDir, pathname, response));
+      if (!served) {
+        response.writeHead(404).end();
+      }
+    } catch (error) {
+      console.error("Необработанная ошибка запроса:", error);
+      if (!response.headersSent) {
+        sendError(response, 500, {
+          kind: "unknown",
+          message: "Внутренняя ошибка сервера.",
+          retryable: false,
+        });
+      } else {
+        response.end();
+      }
+    }
+  });
+
+  server.listen(config.port, () => {
+    console.log(
+      `✅ Сервер-прокси запущен: http://localhost:${config.port} (${provider.id}, ${provider.model})`
+    );
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
@@ -0,0 +1,57 @@
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface RateLimitOptions {
+  maxRequests: number;
+  windowMs: number;
+}
+
+/** Решение по очередному запросу */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Через сколько секунд откроется новое окно (для заголовка Retry-After) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  /** Учитывает запрос с ключа (IP) и решает, пропустить ли его */
+  take(key: string): RateLimitResult;
+}
+
+// ============================================================================
+// ОГРАНИЧИТЕЛЬ
+// ============================================================================
+
+/**
+ * Ограничение частоты запросов по фиксированному окну: не больше maxRequests за windowMs с ключа.
+ * Счетчики хранятся в памяти процесса; истекшие окна периодически удаляются
+ */
+export function createRateLimiter({ maxRequests, windowMs }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Очистка не должна удерживать процесс от завершения
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, windowMs).unref();
+
+  return {
+    take(key) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return {
+        allowed: window.count <= maxRequests,
+        retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+  };
+}
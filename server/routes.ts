@@ -0,0 +1,284 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import {
+  ChatInstructionContext,
+  GeminiContent,
+  ProxyAnalyzeRequest,
+  ProxyAnalyzeResponse,
+  ProxyStreamEvent,
+  RoomAnalysis,
+  UploadedImage,
+  VisionChatRequest,
+} from "../types";
+import { analyzeRoomImage } from "../services/geminiService";
+import { validateRoomAnalysis } from "../services/analysisValidator";
+import { resolveChatSystemInstruction } from "../services/prompts";
+import { PLAN_TOOLS } from "../services/planTools";
+import { getVisionProvider } from "../services/providers";
+import { HttpStatusError, toAIServiceError, toProxyError } from "../services/errors";
+import { isCurrencyCode } from "../services/shoppingList";
+import { ServerConfig } from "./config";
+import { RateLimiter } from "./rateLimit";
+import { getClientIp, readJsonBody, sendError, sendJson, sendServiceError } from "./http";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface ApiContext {
+  config: ServerConfig;
+  limiter: RateLimiter;
+}
+
+/** Обработчик эндпоинта: получает разобранное тело и сигнал отключения клиента */
+type RouteHandler = (body: unknown, response: ServerResponse, signal: AbortSignal) => Promise<void>;
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Столько же фото, сколько позволяет загрузить приложение */
+const MAX_PHOTOS = 6;
+
+const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-cache",
+};
+
+/** Тексты ошибок разбора запроса по HTTP-статусу */
+const BODY_ERROR_MESSAGES: Record<number, string> = {
+  400: "Некорректный запрос.",
+  413: "Запрос слишком большой: уменьшите количество фото.",
+};
+
+// ============================================================================
+// ПРОВЕРКА ЗАПРОСОВ
+// ============================================================================
+
+/**
+ * Ответ на некорректный или слишком большой запрос
+ */
+function sendBadRequest(response: ServerResponse, status = 400): void {
+  sendError(
+    response,
+    status,
+    {
+      kind: "unknown",
+      message: BODY_ERROR_MESSAGES[status] ?? BODY_ERROR_MESSAGES[400],
+      retryable: false,
+    },
+    // Остаток слишком большого тела не дочитывается — соединение закрывается
+    status === 413 ? { Connection: "close" } : undefined
+  );
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isImage = (value: unknown): value is UploadedImage =>
+  isObject(value) &&
+  typeof value.data === "string" &&
+  typeof value.mimeType === "string" &&
+  value.mimeType.startsWith("image/");
+
+const isContent = (value: unknown): value is GeminiContent =>
+  isObject(value) &&
+  (value.role === "user" || value.role === "model") &&
+  Array.isArray(value.parts) &&
+  value.parts.every(isObject);
+
+/**
+ * Проверяет тело запроса анализа
+ */
+function parseAnalyzeRequest(body: unknown): ProxyAnalyzeRequest | null {
+  if (!isObject(body) || !Array.isArray(body.images)) return null;
+  const { images, currency } = body;
+  if (images.length === 0 || images.length > MAX_PHOTOS || !images.every(isImage)) return null;
+  if (currency === undefined) return { images };
+  return isCurrencyCode(currency) ? { images, currency } : null;
+}
+
+/**
+ * Проверяет анализ из запроса чата. Валидатор не переносит отметки выполнения и ручные задачи —
+ * они восстанавливаются по id, потому что от них зависит инструкция ассистента
+ */
+function parseChatAnalysis(value: unknown): RoomAnalysis | null {
+  const { analysis } = validateRoomAnalysis(value, { photoCount: MAX_PHOTOS });
+  if (!analysis) return null;
+
+  const rawItems =
+    isObject(value) && Array.isArray(value.actionItems) ? value.actionItems.filter(isObject) : [];
+  const rawById = new Map(rawItems.map((item) => [String(item.id), item]));
+
+  return {
+    ...analysis,
+    actionItems: analysis.actionItems.map((item) => {
+      const raw = rawById.get(item.id);
+      return {
+        ...item,
+        ...(raw?.completed === true && { completed: true }),
+        ...(raw?.isCustom === true && { isCustom: true }),
+      };
+    }),
+  };
+}
+
+/**
+ * Проверяет тело запроса чата и собирает запрос к модели.
+ * Системная инструкция и инструменты строятся здесь, а не берутся у клиента:
+ * иначе сервер стал бы открытым ретранслятором запросов к модели за счет своего ключа
+ */
+function parseChatRequest(body: unknown): VisionChatRequest | null {
+  if (!isObject(body) || !isObject(body.context)) return null;
+  const { history, context, useTools } = body;
+  if (!Array.isArray(history) || !history.every(isContent)) return null;
+  if (context.purpose !== "chat" && context.purpose !== "summary") return null;
+  if (useTools !== undefined && typeof useTools !== "boolean") return null;
+
+  // Анализ нужен только ответу ассистента; для сжатия переписки он не передается модели
+  let analysis: RoomAnalysis | undefined;
+  if (context.purpose === "chat" && context.analysis !== undefined) {
+    analysis = parseChatAnalysis(context.analysis) ?? undefined;
+    if (!analysis) return null;
+  }
+
+  const instructionContext: ChatInstructionContext = {
+    purpose: context.purpose,
+    analysis,
+    canEditPlan: !!analysis && context.canEditPlan === true,
+  };
+  return {
+    history,
+    systemInstruction: resolveChatSystemInstruction(instructionContext),
+    context: instructionContext,
+    tools: useTools && instructionContext.canEditPlan ? PLAN_TOOLS : undefined,
+  };
+}
+
+// ============================================================================
+// ЭНДПОИНТЫ
+// ============================================================================
+
+/**
+ * POST /api/analyze — анализ фото целиком на сервере (промпт, повторы, проверка ответа)
+ */
+const handleAnalyze: RouteHandler = async (body, response, signal) => {
+  const request = parseAnalyzeRequest(body);
+  if (!request) {
+    sendBadRequest(response);
+    return;
+  }
+
+  try {
+    const analysis = await analyzeRoomImage(request.images, {
+      signal,
+      currency: request.currency,
+    });
+    const payload: ProxyAnalyzeResponse = { analysis };
+    sendJson(response, 200, payload);
+  } catch (error) {
+    if (signal.aborted) return;
+    sendServiceError(response, toAIServiceError(error));
+  }
+};
+
+/**
+ * POST /api/chat — потоковый ответ модели в формате NDJSON.
+ * Цикл инструментов остается на клиенте: план хранится в браузере,
+ * а сервер только объявляет модели свои инструменты плана
+ */
+const handleChat: RouteHandler = async (body, response, signal) => {
+  const request = parseChatRequest(body);
+  if (!request) {
+    sendBadRequest(response);
+    return;
+  }
+
+  const writeEvent = (event: ProxyStreamEvent) => response.write(`${JSON.stringify(event)}\n`);
+
+  try {
+    for await (const chunk of getVisionProvider().streamChat({ ...request, signal })) {
+      // Заголовки отправляются с первым фрагментом: ошибка до него получает свой HTTP-статус
+      if (!response.headersSent) response.writeHead(200, NDJSON_HEADERS);
+      writeEvent(chunk);
+    }
+    if (!response.headersSent) response.writeHead(200, NDJSON_HEADERS);
+    response.end();
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error("Ошибка чата:", error);
+
+    const serviceError = toAIServiceError(error, "Не удалось получить ответ.");
+    if (response.headersSent) {
+      writeEvent({ type: "error", error: toProxyError(serviceError) });
+      response.end();
+    } else {
+      sendServiceError(response, serviceError);
+    }
+  }
+};
+
+const API_ROUTES: Record<string, RouteHandler> = {
+  "/api/analyze": handleAnalyze,
+  "/api/chat": handleChat,
+};
+
+// ============================================================================
+// ОБРАБОТКА ЗАПРОСОВ
+// ============================================================================
+
+/**
+ * Обрабатывает запрос к /api/*: маршрут, лимит частоты, размер тела
+ */
+export async function handleApiRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  { config, limiter }: ApiContext
+): Promise<void> {
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  const route = API_ROUTES[pathname];
+
+  if (!route) {
+    sendError(response, 404, {
+      kind: "unknown",
+      message: "Неизвестный адрес API.",
+      retryable: false,
+    });
+    return;
+  }
+  if (request.method !== "POST") {
+    sendError(
+      response,
+      405,
+      { kind: "unknown", message: "Метод не поддерживается.", retryable: false },
+      { Allow: "POST" }
+    );
+    return;
+  }
+
+  const { allowed, retryAfterSeconds } = limiter.take(getClientIp(request, config.trustProxy));
+  if (!allowed) {
+    sendError(
+      response,
+      429,
+      { kind: "quota", message: "Слишком много запросов с вашего адреса.", retryable: true },
+      { "Retry-After": String(retryAfterSeconds) }
+    );
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, config.maxBodyBytes);
+  } catch (error) {
+    sendBadRequest(response, error instanceof HttpStatusError ? error.status : 400);
+    return;
+  }
+
+  // Клиент закрыл соединение (остановил ответ или ушел со страницы) — прерываем запрос к модели
+  const controller = new AbortController();
+  response.on("close", () => {
+    if (!response.writableFinished) controller.abort();
+  });
+
+  await route(body, response, controller.signal);
+}
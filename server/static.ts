@@ -0,0 +1,76 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { ServerResponse } from "node:http";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+// ============================================================================
+// РАЗДАЧА ФАЙЛОВ
+// ============================================================================
+
+/**
+ * Раскодированный путь или null, если в нем некорректные %-последовательности
+ */
+function decodePathname(pathname: string): string | null {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Путь к существующему файлу внутри каталога или null.
+ * Пути за пределами каталога (../) и некорректно закодированные пути не раздаются
+ */
+async function resolveFile(rootDir: string, pathname: string): Promise<string | null> {
+  const decoded = decodePathname(pathname);
+  if (decoded === null) return null;
+
+  const filePath = path.join(rootDir, decoded);
+  if (filePath !== rootDir && !filePath.startsWith(`${rootDir}${path.sep}`)) return null;
+
+  const stats = await stat(filePath).catch(() => null);
+  if (stats?.isFile()) return filePath;
+  if (stats?.isDirectory()) return resolveFile(rootDir, path.join(pathname, "index.html"));
+  return null;
+}
+
+/**
+ * Раздает собранное приложение; неизвестные пути получают index.html
+ * @returns false, если каталога сборки нет
+ */
+export async function serveStatic(
+  rootDir: string,
+  pathname: string,
+  response: ServerResponse
+): Promise<boolean> {
+  const filePath =
+    (await resolveFile(rootDir, pathname)) ?? (await resolveFile(rootDir, "/index.html"));
+  if (!filePath) return false;
+
+  const extension = path.extname(filePath);
+  response.writeHead(200, {
+    "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream",
+    // Файлы сборки содержат хеш в имени и не меняются; index.html — всегда свежий
+    "Cache-Control": extension === ".html" ? "no-cache" : "public, max-age=31536000, immutable",
+  });
+  createReadStream(filePath).pipe(response);
+  return true;
+}
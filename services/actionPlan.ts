@@ -0,0 +1,199 @@
+import { ActionItem } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Поля задачи, которые пользователь может редактировать */
+export type ActionItemDraft = Pick<
+  ActionItem,
+  "title" | "description" | "difficulty" | "category" | "estimatedMinutes"
+>;
+
+/** Разница между двумя версиями плана */
+export interface PlanDiff {
+  added: ActionItem[];
+  removed: ActionItem[];
+  changed: { before: ActionItem; after: ActionItem }[];
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Поля, изменение которых считается правкой задачи */
+const DIFF_FIELDS: (keyof ActionItem)[] = [
+  "title",
+  "description",
+  "difficulty",
+  "category",
+  "estimatedMinutes",
+  "completed",
+];
+
+/** Оценка времени по сложности — для задач без estimatedMinutes (свои задачи, старые анализы) */
+const DIFFICULTY_MINUTES: Record<ActionItem["difficulty"], number> = {
+  Easy: 15,
+  Medium: 30,
+  Hard: 60,
+};
+
+// ============================================================================
+// ОПЕРАЦИИ С ПЛАНОМ
+// ============================================================================
+// Все функции чистые: возвращают новый массив и не мутируют исходный
+
+/**
+ * Переключает отметку выполнения задачи
+ */
+export function toggleActionItem(items: ActionItem[], id: string): ActionItem[] {
+  return items.map((item) => (item.id === id ? { ...item, completed: !item.completed } : item));
+}
+
+/**
+ * Ставит или снимает отметку выполнения задачи
+ */
+export function setActionItemCompleted(
+  items: ActionItem[],
+  id: string,
+  completed: boolean
+): ActionItem[] {
+  return items.map((item) => (item.id === id ? { ...item, completed } : item));
+}
+
+/**
+ * Обновляет поля задачи
+ */
+export function updateActionItem(
+  items: ActionItem[],
+  id: string,
+  patch: Partial<ActionItemDraft>
+): ActionItem[] {
+  return items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+}
+
+/**
+ * Удаляет задачу
+ */
+export function removeActionItem(items: ActionItem[], id: string): ActionItem[] {
+  return items.filter((item) => item.id !== id);
+}
+
+/**
+ * Генерирует id, которого еще нет в плане
+ */
+export function createActionItemId(items: ActionItem[]): string {
+  const usedIds = new Set(items.map((item) => item.id));
+  let counter = items.length + 1;
+  while (usedIds.has(`custom-${counter}`)) counter++;
+  return `custom-${counter}`;
+}
+
+/**
+ * Добавляет пользовательскую задачу в конец своей категории
+ */
+export function addActionItem(items: ActionItem[], draft: ActionItemDraft): ActionItem[] {
+  const item: ActionItem = { ...draft, id: createActionItemId(items), isCustom: true };
+
+  const lastInCategory = items.map((i) => i.category).lastIndexOf(draft.category);
+  const insertAt = lastInCategory === -1 ? items.length : lastInCategory + 1;
+
+  return [...items.slice(0, insertAt), item, ...items.slice(insertAt)];
+}
+
+/**
+ * Перемещает задачу на одну позицию вверх или вниз в пределах ее категории
+ * @param direction - -1 вверх, 1 вниз
+ */
+export function moveActionItem(items: ActionItem[], id: string, direction: -1 | 1): ActionItem[] {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) return items;
+
+  // Ищем соседнюю задачу той же категории
+  const category = items[index].category;
+  let swapIndex = index + direction;
+  while (swapIndex >= 0 && swapIndex < items.length && items[swapIndex].category !== category) {
+    swapIndex += direction;
+  }
+  if (swapIndex < 0 || swapIndex >= items.length) return items;
+
+  const result = [...items];
+  [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  return result;
+}
+
+/**
+ * Доля выполненных задач в процентах (0, если задач нет)
+ */
+export function getCompletionPercent(items: ActionItem[]): number {
+  if (items.length === 0) return 0;
+  const completed = items.filter((item) => item.completed).length;
+  return Math.round((completed / items.length) * 100);
+}
+
+/**
+ * Время на задачу в минутах: оценка модели или, если ее нет, оценка по сложности
+ */
+export function getActionItemMinutes(item: ActionItem): number {
+  return item.estimatedMinutes ?? DIFFICULTY_MINUTES[item.difficulty];
+}
+
+/**
+ * Номера задач: позиция в плане, начиная с 1.
+ * Одни и те же номера видят пользователь (план, маркеры на фото) и чат-ассистент.
+ */
+export function getActionItemNumbers(items: ActionItem[]): Map<string, number> {
+  return new Map(items.map((item, index) => [item.id, index + 1]));
+}
+
+/**
+ * Разница между двумя версиями плана (сравнение по id)
+ */
+export function diffActionItems(before: ActionItem[], after: ActionItem[]): PlanDiff {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  const changed: PlanDiff["changed"] = [];
+  for (const item of after) {
+    const previous = beforeById.get(item.id);
+    if (previous && DIFF_FIELDS.some((field) => previous[field] !== item[field])) {
+      changed.push({ before: previous, after: item });
+    }
+  }
+
+  return {
+    added: after.filter((item) => !beforeById.has(item.id)),
+    removed: before.filter((item) => !afterIds.has(item.id)),
+    changed,
+  };
+}
+
+/**
+ * Отменяет изменение плана.
+ * Если после изменения план не трогали, возвращается точный снимок «до».
+ * Иначе отменяются только сами правки (по id), а более поздние изменения сохраняются.
+ */
+export function revertActionItems(
+  current: ActionItem[],
+  before: ActionItem[],
+  after: ActionItem[]
+): ActionItem[] {
+  if (JSON.stringify(current) === JSON.stringify(after)) return before;
+
+  const diff = diffActionItems(before, after);
+  const addedIds = new Set(diff.added.map((item) => item.id));
+  const revertedById = new Map(diff.changed.map(({ before: item }) => [item.id, item]));
+
+  const result = current
+    .filter((item) => !addedIds.has(item.id))
+    .map((item) => revertedById.get(item.id) ?? item);
+
+  // Удаленные задачи возвращаем на прежние позиции
+  for (const item of diff.removed) {
+    if (result.some((i) => i.id === item.id)) continue;
+    const index = Math.min(before.indexOf(item), result.length);
+    result.splice(index, 0, item);
+  }
+
+  return result;
+}
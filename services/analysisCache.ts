@@ -0,0 +1,99 @@
+import { AnalysisCacheEntry, RoomAnalysis, UploadedImage } from "../types";
+import { ANALYSIS_PROMPT_VERSION } from "./prompts";
+import { getVisionProvider } from "./providers";
+import { getAnalysisCacheStore, requestToPromise } from "./historyStore";
+import { getShoppingCurrency } from "./shoppingList";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Сколько анализов хранится; при превышении удаляются давно не использованные */
+const MAX_CACHE_ENTRIES = 50;
+
+/** Срок жизни записи: модели обновляются, и старый анализ со временем лучше получить заново */
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// КЛЮЧ
+// ============================================================================
+
+/**
+ * Ключ кэша: SHA-256 подготовленных фото вместе с версией промпта, моделью и валютой цен.
+ * Подготовка фото детерминирована, поэтому повторная загрузка того же файла дает тот же ключ
+ * @throws Error, если Web Crypto недоступен (страница открыта не по HTTPS и не с localhost)
+ */
+export async function getAnalysisCacheKey(images: UploadedImage[]): Promise<string> {
+  const provider = getVisionProvider();
+  const payload = [
+    `${ANALYSIS_PROMPT_VERSION}|${provider.id}|${provider.model}|${getShoppingCurrency()}`,
+    ...images.map((image) => `${image.mimeType}:${image.data}`),
+  ].join("\n");
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================================
+// API КЭША
+// ============================================================================
+
+/**
+ * Запись кэша по ключу или null (просроченная запись удаляется)
+ */
+export async function getCachedAnalysis(key: string): Promise<AnalysisCacheEntry | null> {
+  const store = await getAnalysisCacheStore("readwrite");
+  const entry = (await requestToPromise(store.get(key))) as AnalysisCacheEntry | undefined;
+  if (!entry) return null;
+
+  if (Date.now() - entry.createdAt.getTime() > CACHE_TTL_MS) {
+    await requestToPromise(store.delete(key));
+    return null;
+  }
+
+  const used: AnalysisCacheEntry = { ...entry, lastUsedAt: new Date() };
+  await requestToPromise(store.put(used));
+  return used;
+}
+
+/**
+ * Сохраняет анализ вместе с сессией истории, в которую он записан, и вытесняет лишние записи
+ */
+export async function cacheAnalysis(
+  key: string,
+  analysis: RoomAnalysis,
+  sessionId?: string
+): Promise<void> {
+  const now = new Date();
+  const entry: AnalysisCacheEntry = { key, analysis, sessionId, createdAt: now, lastUsedAt: now };
+  const store = await getAnalysisCacheStore("readwrite");
+  await requestToPromise(store.put(entry));
+  await evictAnalysisCache();
+}
+
+/**
+ * Привязывает запись кэша к новой сессии (прежнюю удалили из истории)
+ */
+export async function linkCachedSession(key: string, sessionId: string): Promise<void> {
+  const store = await getAnalysisCacheStore("readwrite");
+  const entry = (await requestToPromise(store.get(key))) as AnalysisCacheEntry | undefined;
+  if (entry) await requestToPromise(store.put({ ...entry, sessionId }));
+}
+
+/**
+ * Удаляет просроченные записи и самые давно использованные сверх MAX_CACHE_ENTRIES
+ */
+async function evictAnalysisCache(): Promise<void> {
+  const store = await getAnalysisCacheStore("readwrite");
+  const entries = (await requestToPromise(
+    store.index("lastUsedAt").getAll()
+  )) as AnalysisCacheEntry[];
+
+  // Записи отсортированы по lastUsedAt: в начале — самые давно использованные
+  const overflow = entries.length - MAX_CACHE_ENTRIES;
+  const expiredBefore = Date.now() - CACHE_TTL_MS;
+  const staleKeys = entries
+    .filter((entry, index) => index < overflow || entry.createdAt.getTime() < expiredBefore)
+    .map((entry) => entry.key);
+  await Promise.all(staleKeys.map((key) => requestToPromise(store.delete(key))));
+}
@@ -0,0 +1,143 @@
+import { Schema, Type } from "@google/genai";
+import { ActionItem, BoundingBox, PriceRange, PurchaseDetails, RoomAnalysis } from "../types";
+
+// ============================================================================
+// ДОПУСТИМЫЕ ЗНАЧЕНИЯ
+// ============================================================================
+
+/** Все значения сложности (Record гарантирует, что список совпадает с типом) */
+const DIFFICULTY_VALUES: Record<ActionItem["difficulty"], true> = {
+  Easy: true,
+  Medium: true,
+  Hard: true,
+};
+
+/** Все значения категории */
+const CATEGORY_VALUES: Record<ActionItem["category"], true> = {
+  Discard: true,
+  Organize: true,
+  Buy: true,
+};
+
+// ============================================================================
+// СХЕМА
+// ============================================================================
+
+/** Поля задачи, которые ведет только клиент (чек-лист), а не модель */
+type ClientActionItemField = "completed" | "isCustom";
+
+/**
+ * Необязательные поля задачи: photoIndex нужен только при нескольких фото,
+ * рамка — не для всех задач, детали покупки — только для категории Buy
+ */
+const OPTIONAL_ACTION_ITEM_FIELDS: (keyof ActionItem)[] = ["photoIndex", "boundingBox", "purchase"];
+
+/** Схема рамки: координаты в долях от 0 до 1 */
+const BOUNDING_BOX_PROPERTIES: Record<keyof BoundingBox, Schema> = {
+  x: { type: Type.NUMBER, description: "Левый край", minimum: 0, maximum: 1 },
+  y: { type: Type.NUMBER, description: "Верхний край", minimum: 0, maximum: 1 },
+  width: { type: Type.NUMBER, description: "Ширина", minimum: 0, maximum: 1 },
+  height: { type: Type.NUMBER, description: "Высота", minimum: 0, maximum: 1 },
+};
+
+/** Схема цены: валюту задает приложение, модель возвращает только числа */
+const PRICE_RANGE_PROPERTIES: Record<Exclude<keyof PriceRange, "currency">, Schema> = {
+  min: { type: Type.NUMBER, description: "Нижняя граница цены за штуку", minimum: 0 },
+  max: { type: Type.NUMBER, description: "Верхняя граница цены за штуку", minimum: 0 },
+};
+
+/** Схема деталей покупки */
+const PURCHASE_PROPERTIES: Record<keyof PurchaseDetails, Schema> = {
+  itemType: { type: Type.STRING, description: "Тип вещи в общем виде, без брендов и магазинов" },
+  quantity: { type: Type.INTEGER, description: "Сколько штук нужно", minimum: 1 },
+  dimensions: { type: Type.STRING, description: "Примерные размеры, например «40×30×50 см»" },
+  priceRange: {
+    type: Type.OBJECT,
+    description: "Примерная цена за одну штуку",
+    properties: PRICE_RANGE_PROPERTIES,
+    required: Object.keys(PRICE_RANGE_PROPERTIES),
+    propertyOrdering: Object.keys(PRICE_RANGE_PROPERTIES),
+  },
+};
+
+/** Схема одной задачи: ключи свойств проверяются по типу ActionItem */
+const ACTION_ITEM_PROPERTIES: Record<Exclude<keyof ActionItem, ClientActionItemField>, Schema> = {
+  id: { type: Type.STRING, description: "Уникальный идентификатор задачи: 1, 2, 3..." },
+  title: { type: Type.STRING, description: "Короткий заголовок задачи" },
+  description: { type: Type.STRING, description: "Описание действия" },
+  difficulty: { type: Type.STRING, format: "enum", enum: Object.keys(DIFFICULTY_VALUES) },
+  category: { type: Type.STRING, format: "enum", enum: Object.keys(CATEGORY_VALUES) },
+  estimatedMinutes: {
+    type: Type.INTEGER,
+    description: "Сколько минут займет задача у одного человека",
+    minimum: 1,
+    maximum: 480,
+  },
+  photoIndex: {
+    type: Type.INTEGER,
+    description: "Номер фото (с 0), на котором видна проблема",
+    minimum: 0,
+  },
+  boundingBox: {
+    type: Type.OBJECT,
+    description: "Область фото, где видна проблема, в долях от 0 до 1 от левого верхнего угла",
+    properties: BOUNDING_BOX_PROPERTIES,
+    required: Object.keys(BOUNDING_BOX_PROPERTIES),
+    propertyOrdering: Object.keys(BOUNDING_BOX_PROPERTIES),
+  },
+  purchase: {
+    type: Type.OBJECT,
+    description: "Что купить — только для задач категории Buy",
+    properties: PURCHASE_PROPERTIES,
+    required: ["itemType", "quantity", "priceRange"],
+    propertyOrdering: Object.keys(PURCHASE_PROPERTIES),
+  },
+};
+
+/** Схема полного анализа: ключи свойств проверяются по типу RoomAnalysis */
+const ROOM_ANALYSIS_PROPERTIES: Record<keyof RoomAnalysis, Schema> = {
+  roomType: { type: Type.STRING, description: "Тип комнаты (1-2 слова)" },
+  clutterLevel: {
+    type: Type.INTEGER,
+    description: "Уровень захламленности в процентах",
+    minimum: 0,
+    maximum: 100,
+  },
+  spaceUtilization: {
+    type: Type.ARRAY,
+    description: "Доли площади: Мебель, Свободное место, Хлам. Сумма значений равна 100",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        value: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+      },
+      required: ["name", "value"],
+      propertyOrdering: ["name", "value"],
+    },
+  },
+  summary: { type: Type.STRING, description: "Краткое резюме состояния (1-2 предложения)" },
+  actionItems: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: ACTION_ITEM_PROPERTIES,
+      required: Object.keys(ACTION_ITEM_PROPERTIES).filter(
+        (key) => !OPTIONAL_ACTION_ITEM_FIELDS.includes(key as keyof ActionItem)
+      ),
+      propertyOrdering: Object.keys(ACTION_ITEM_PROPERTIES),
+    },
+  },
+  aestheticSuggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+};
+
+/**
+ * Схема ответа для structured output (responseSchema).
+ * Модель обязана вернуть JSON именно этой формы.
+ */
+export const ROOM_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: ROOM_ANALYSIS_PROPERTIES,
+  required: Object.keys(ROOM_ANALYSIS_PROPERTIES),
+  propertyOrdering: Object.keys(ROOM_ANALYSIS_PROPERTIES),
+};
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateRoomAnalysis } from "./analysisValidator";
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/** Рамка единственной задачи после проверки ответа */
+const readItemBox = (boundingBox: unknown) => {
+  const { analysis, issues } = validateRoomAnalysis({
+    summary: "Комната",
+    actionItems: [{ title: "Убрать вещи", difficulty: "Easy", category: "Organize", boundingBox }],
+  });
+  return { box: analysis?.actionItems[0].boundingBox, issues };
+};
+
+// ============================================================================
+// ТЕСТЫ
+// ============================================================================
+
+test("объект с координатами не больше 1 читается как доли", () => {
+  const { box } = readItemBox({ x: 0.1, y: 0.2, width: 0.3, height: 0.4 });
+
+  assert.deepEqual(box, { x: 0.1, y: 0.2, width: 0.3, height: 0.4 });
+});
+
+test("маленькая рамка в шкале 0-1000 в формате Gemini не принимается за доли", () => {
+  // [ymin, xmin, ymax, xmax] у левого верхнего угла: все координаты не больше 1
+  const { box } = readItemBox([0, 0, 1, 1]);
+
+  // 0.001 — меньше минимальной стороны рамки: в долях это была бы вся фотография
+  assert.equal(box, undefined);
+});
+
+test("массив в формате Gemini всегда переводится из шкалы 0-1000", () => {
+  const { box } = readItemBox([100, 200, 500, 800]);
+
+  assert.deepEqual(box, { x: 0.2, y: 0.1, width: 0.6, height: 0.4 });
+});
+
+test("объект с координатами больше 1 отбрасывается, а не пересчитывается", () => {
+  const { box, issues } = readItemBox({ x: 0.5, y: 0.5, width: 300, height: 200 });
+
+  assert.equal(box, undefined);
+  assert.ok(issues.some((issue) => issue.path.endsWith("boundingBox")));
+});
@@ -0,0 +1,541 @@
+import { ActionItem, BoundingBox, PriceRange, PurchaseDetails, RoomAnalysis } from "../types";
+import { DEFAULT_CURRENCY, isCurrencyCode } from "./shoppingList";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Код проблемы, найденной при проверке ответа модели */
+export type ValidationIssueCode =
+  | "invalid_json" // Ответ не удалось распарсить как JSON
+  | "invalid_root" // Корень ответа не похож на RoomAnalysis
+  | "missing_field" // Поле отсутствует, подставлено значение по умолчанию
+  | "invalid_type" // Неверный тип поля, значение приведено или заменено
+  | "enum_coerced" // Значение перечисления приведено к допустимому
+  | "value_clamped" // Число вышло за пределы диапазона
+  | "values_normalized" // Доли spaceUtilization пересчитаны к сумме 100
+  | "item_dropped" // Элемент списка отброшен как непригодный
+  | "duplicate_id"; // Повторяющийся или пустой id заменен уникальным
+
+/** Проблема в ответе модели */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  /** Путь к полю, например "actionItems[2].difficulty" */
+  path: string;
+  message: string;
+  /** fatal — ответ невозможно восстановить без повторного запроса */
+  fatal: boolean;
+}
+
+/** Параметры проверки */
+export interface ValidationOptions {
+  /** Количество фото в запросе: photoIndex проверяется только при нескольких фото */
+  photoCount?: number;
+  /** Валюта цен покупок, если в ответе ее нет (модель возвращает только числа) */
+  currency?: string;
+}
+
+/** Результат проверки: восстановленный анализ (или null) и список проблем */
+export interface ValidationResult {
+  analysis: RoomAnalysis | null;
+  issues: ValidationIssue[];
+}
+
+type Difficulty = ActionItem["difficulty"];
+type Category = ActionItem["category"];
+
+/** Регистрирует найденную проблему */
+type IssueReporter = (
+  code: ValidationIssueCode,
+  path: string,
+  message: string,
+  fatal?: boolean
+) => void;
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Допустимые написания сложности (в нижнем регистре) */
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+  easy: "Easy",
+  легко: "Easy",
+  простая: "Easy",
+  medium: "Medium",
+  moderate: "Medium",
+  средне: "Medium",
+  средняя: "Medium",
+  hard: "Hard",
+  difficult: "Hard",
+  сложно: "Hard",
+  сложная: "Hard",
+};
+
+/** Допустимые написания категории (в нижнем регистре) */
+const CATEGORY_ALIASES: Record<string, Category> = {
+  discard: "Discard",
+  remove: "Discard",
+  выбросить: "Discard",
+  убрать: "Discard",
+  organize: "Organize",
+  organise: "Organize",
+  организовать: "Organize",
+  buy: "Buy",
+  purchase: "Buy",
+  купить: "Buy",
+};
+
+const DEFAULT_DIFFICULTY: Difficulty = "Medium";
+const DEFAULT_CATEGORY: Category = "Organize";
+const DEFAULT_ROOM_TYPE = "Комната";
+const DEFAULT_CLUTTER_LEVEL = 50;
+
+/** Шкала, в которой Gemini по умолчанию возвращает координаты рамок */
+const NATIVE_BOX_SCALE = 1000;
+
+/** Минимальная сторона рамки в долях: меньшие рамки не видны и отбрасываются */
+const MIN_BOX_SIZE = 0.01;
+
+/** Допустимая оценка времени на одну задачу, в минутах */
+const MIN_ITEM_MINUTES = 1;
+const MAX_ITEM_MINUTES = 480;
+
+/** Допустимое количество одной покупки */
+const MIN_PURCHASE_QUANTITY = 1;
+const MAX_PURCHASE_QUANTITY = 99;
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Приводит значение к числу: принимает числа и числовые строки ("45", "45%")
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value.replace(",", ".").replace("%", ""));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Пересчитывает доли так, чтобы целые значения в сумме давали ровно 100
+ * (метод наибольшего остатка)
+ */
+function normalizeToHundred(values: number[]): number[] {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (total <= 0) return values.map(() => Math.floor(100 / values.length));
+
+  const exact = values.map((v) => (v / total) * 100);
+  const result = exact.map(Math.floor);
+  let remainder = 100 - result.reduce((sum, v) => sum + v, 0);
+
+  const byFraction = exact
+    .map((v, index) => ({ index, fraction: v - Math.floor(v) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    result[index] += 1;
+    remainder -= 1;
+  }
+
+  return result;
+}
+
+/**
+ * Читает рамку задачи. Шкала определяется форматом, а не значениями: объект
+ * {x, y, width, height} — в долях, как требуют схема и промпт, массив [ymin, xmin, ymax, xmax]
+ * в формате Gemini — в шкале 0-1000. Маленькая рамка у левого верхнего угла в шкале 0-1000
+ * неотличима от рамки в долях, поэтому угадывать шкалу по координатам нельзя.
+ * @returns рамку в долях от 0 до 1 или undefined, если рамки нет или она непригодна
+ */
+function readBoundingBox(
+  value: unknown,
+  path: string,
+  report: IssueReporter
+): BoundingBox | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  let coords: number[] | null = null;
+  if (Array.isArray(value) && value.length === 4) {
+    const [ymin, xmin, ymax, xmax] = value.map(toNumber);
+    if (ymin !== null && xmin !== null && ymax !== null && xmax !== null) {
+      report("invalid_type", path, "Массив [ymin, xmin, ymax, xmax] приведен к рамке");
+      coords = [xmin, ymin, xmax - xmin, ymax - ymin].map((v) => v / NATIVE_BOX_SCALE);
+    }
+  } else if (isRecord(value)) {
+    const box = [value.x, value.y, value.width, value.height].map(toNumber);
+    if (box.every((v): v is number => v !== null)) coords = box;
+  }
+
+  if (!coords) {
+    report("item_dropped", path, "Рамка без числовых координат");
+    return undefined;
+  }
+
+  // Координаты больше 1 — рамка не в долях; перевод из другой шкалы был бы догадкой
+  if (coords.some((v) => v > 1)) {
+    report("item_dropped", path, "Координаты рамки не в долях от 0 до 1");
+    return undefined;
+  }
+
+  const x = Math.min(1, Math.max(0, coords[0]));
+  const y = Math.min(1, Math.max(0, coords[1]));
+  const width = Math.min(1 - x, coords[2]);
+  const height = Math.min(1 - y, coords[3]);
+  if (x !== coords[0] || y !== coords[1] || width !== coords[2] || height !== coords[3]) {
+    report("value_clamped", path, "Рамка обрезана по границам фото");
+  }
+
+  if (width < MIN_BOX_SIZE || height < MIN_BOX_SIZE) {
+    report("item_dropped", path, "Рамка нулевого размера или за пределами фото");
+    return undefined;
+  }
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return { x: round(x), y: round(y), width: round(width), height: round(height) };
+}
+
+/**
+ * Читает цену за штуку. Отрицательные границы обнуляются, перепутанные — меняются местами.
+ * Валюта берется из ответа (сохраненный план, сервер-прокси) или из настроек
+ * @returns цену или undefined, если границ нет
+ */
+function readPriceRange(
+  value: unknown,
+  path: string,
+  currency: string,
+  report: IssueReporter
+): PriceRange | undefined {
+  const rawMin = isRecord(value) ? toNumber(value.min) : null;
+  const rawMax = isRecord(value) ? toNumber(value.max) : null;
+  if (rawMin === null && rawMax === null) {
+    report("missing_field", path, "Покупка без цены");
+    return undefined;
+  }
+  if ((rawMin ?? 0) < 0 || (rawMax ?? 0) < 0) {
+    report("value_clamped", path, "Отрицательная цена заменена на 0");
+  }
+
+  // Одна граница — цена без разброса; копейки и центы сохраняются
+  const round = (v: number) => Math.round(Math.max(0, v) * 100) / 100;
+  let min = round(rawMin ?? rawMax!);
+  let max = round(rawMax ?? rawMin!);
+  if (min > max) {
+    report("value_clamped", path, `Границы цены переставлены: ${min} > ${max}`);
+    [min, max] = [max, min];
+  }
+  if (max === 0) {
+    report("item_dropped", path, "Нулевая цена");
+    return undefined;
+  }
+
+  const rawCurrency = isRecord(value) ? String(value.currency ?? "").toUpperCase() : "";
+  return { min, max, currency: isCurrencyCode(rawCurrency) ? rawCurrency : currency };
+}
+
+/**
+ * Читает детали покупки задачи категории Buy
+ * @param fallbackType - тип вещи, если модель его не указала (заголовок задачи)
+ * @returns детали покупки или undefined, если их нет
+ */
+function readPurchase(
+  value: unknown,
+  path: string,
+  fallbackType: string,
+  currency: string,
+  report: IssueReporter
+): PurchaseDetails | undefined {
+  if (value === undefined || value === null) {
+    report("missing_field", path, "Покупка без количества и цены");
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    report("item_dropped", path, "Детали покупки не являются объектом");
+    return undefined;
+  }
+
+  const hasType = typeof value.itemType === "string" && value.itemType.trim().length > 0;
+  if (!hasType) {
+    report("missing_field", `${path}.itemType`, "Тип вещи взят из заголовка");
+  }
+
+  let quantity = MIN_PURCHASE_QUANTITY;
+  const rawQuantity = toNumber(value.quantity);
+  if (rawQuantity === null) {
+    report("missing_field", `${path}.quantity`, `Используется ${MIN_PURCHASE_QUANTITY}`);
+  } else {
+    quantity = Math.min(
+      MAX_PURCHASE_QUANTITY,
+      Math.max(MIN_PURCHASE_QUANTITY, Math.round(rawQuantity))
+    );
+    if (quantity !== rawQuantity) {
+      report("value_clamped", `${path}.quantity`, `${rawQuantity} → ${quantity}`);
+    }
+  }
+
+  const purchase: PurchaseDetails = {
+    itemType: hasType ? (value.itemType as string).trim() : fallbackType,
+    quantity,
+  };
+
+  if (typeof value.dimensions === "string" && value.dimensions.trim()) {
+    purchase.dimensions = value.dimensions.trim();
+  }
+
+  const priceRange = readPriceRange(value.priceRange, `${path}.priceRange`, currency, report);
+  if (priceRange) {
+    purchase.priceRange = priceRange;
+  }
+
+  return purchase;
+}
+
+// ============================================================================
+// ВАЛИДАТОР
+// ============================================================================
+
+/**
+ * Проверяет и по возможности восстанавливает ответ модели.
+ * Приводит регистр перечислений, ограничивает числа, заполняет значения
+ * по умолчанию и делает id задач уникальными.
+ * @param raw - распарсенный JSON из ответа модели
+ * @param options - параметры проверки
+ */
+export function validateRoomAnalysis(
+  raw: unknown,
+  { photoCount = 1, currency = DEFAULT_CURRENCY }: ValidationOptions = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: IssueReporter = (code, path, message, fatal = false) => {
+    issues.push({ code, path, message, fatal });
+  };
+
+  if (!isRecord(raw)) {
+    report("invalid_root", "", "Ответ не является JSON-объектом", true);
+    return { analysis: null, issues };
+  }
+
+  // Ответ без резюме и без задач — это не анализ комнаты, чинить нечего
+  if (raw.summary === undefined && raw.actionItems === undefined) {
+    report("invalid_root", "", "В ответе нет ни summary, ни actionItems", true);
+    return { analysis: null, issues };
+  }
+
+  /** Читает строковое поле, подставляя значение по умолчанию */
+  const readString = (value: unknown, path: string, fallback: string): string => {
+    if (typeof value === "string") return value;
+    if (typeof value === "number") {
+      report("invalid_type", path, "Число приведено к строке");
+      return String(value);
+    }
+    report(value === undefined ? "missing_field" : "invalid_type", path, `Используется "${fallback}"`);
+    return fallback;
+  };
+
+  // --- Простые поля ---
+  const roomType = readString(raw.roomType, "roomType", DEFAULT_ROOM_TYPE) || DEFAULT_ROOM_TYPE;
+  const summary = readString(raw.summary, "summary", "");
+
+  // --- Уровень захламленности ---
+  let clutterLevel = toNumber(raw.clutterLevel);
+  if (clutterLevel === null) {
+    report("missing_field", "clutterLevel", `Используется ${DEFAULT_CLUTTER_LEVEL}`);
+    clutterLevel = DEFAULT_CLUTTER_LEVEL;
+  } else if (clutterLevel < 0 || clutterLevel > 100) {
+    report("value_clamped", "clutterLevel", `Значение ${clutterLevel} ограничено диапазоном 0-100`);
+    clutterLevel = Math.min(100, Math.max(0, clutterLevel));
+  }
+  clutterLevel = Math.round(clutterLevel);
+
+  // --- Использование пространства ---
+  const rawUtilization = Array.isArray(raw.spaceUtilization) ? raw.spaceUtilization : [];
+  if (!Array.isArray(raw.spaceUtilization)) {
+    report("missing_field", "spaceUtilization", "Используется пустой список");
+  }
+
+  const utilizationEntries: { name: string; value: number }[] = [];
+  rawUtilization.forEach((entry, index) => {
+    const path = `spaceUtilization[${index}]`;
+    const value = isRecord(entry) ? toNumber(entry.value) : null;
+    if (!isRecord(entry) || typeof entry.name !== "string" || value === null) {
+      report("item_dropped", path, "Элемент без названия или числового значения");
+      return;
+    }
+    if (value < 0) {
+      report("value_clamped", `${path}.value`, "Отрицательное значение заменено на 0");
+    }
+    utilizationEntries.push({ name: entry.name, value: Math.max(0, value) });
+  });
+
+  if (utilizationEntries.length > 0) {
+    const values = utilizationEntries.map((entry) => entry.value);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const needsNormalization = total !== 100 || values.some((v) => !Number.isInteger(v));
+
+    if (needsNormalization) {
+      report("values_normalized", "spaceUtilization", `Сумма ${total} пересчитана к 100`);
+      normalizeToHundred(values).forEach((value, index) => {
+        utilizationEntries[index].value = value;
+      });
+    }
+  }
+
+  // --- Задачи ---
+  const rawItems = Array.isArray(raw.actionItems) ? raw.actionItems : [];
+  if (!Array.isArray(raw.actionItems)) {
+    report("missing_field", "actionItems", "Используется пустой список");
+  }
+
+  const usedIds = new Set<string>();
+  const actionItems: ActionItem[] = [];
+
+  rawItems.forEach((entry, index) => {
+    const path = `actionItems[${index}]`;
+    if (!isRecord(entry)) {
+      report("item_dropped", path, "Задача не является объектом");
+      return;
+    }
+
+    const description = typeof entry.description === "string" ? entry.description : "";
+    const hasTitle = typeof entry.title === "string" && entry.title.trim().length > 0;
+    if (!hasTitle && !description.trim()) {
+      report("item_dropped", path, "Задача без заголовка и описания");
+      return;
+    }
+    if (!hasTitle) {
+      report("missing_field", `${path}.title`, "Заголовок взят из описания");
+    }
+    const title = hasTitle ? (entry.title as string) : description;
+
+    // Перечисления: приводим регистр и синонимы
+    const rawDifficulty = String(entry.difficulty ?? "").trim().toLowerCase();
+    let difficulty = DIFFICULTY_ALIASES[rawDifficulty];
+    if (!difficulty) {
+      report("enum_coerced", `${path}.difficulty`, `"${entry.difficulty}" → ${DEFAULT_DIFFICULTY}`);
+      difficulty = DEFAULT_DIFFICULTY;
+    } else if (difficulty !== entry.difficulty) {
+      report("enum_coerced", `${path}.difficulty`, `"${entry.difficulty}" → ${difficulty}`);
+    }
+
+    const rawCategory = String(entry.category ?? "").trim().toLowerCase();
+    let category = CATEGORY_ALIASES[rawCategory];
+    if (!category) {
+      report("enum_coerced", `${path}.category`, `"${entry.category}" → ${DEFAULT_CATEGORY}`);
+      category = DEFAULT_CATEGORY;
+    } else if (category !== entry.category) {
+      report("enum_coerced", `${path}.category`, `"${entry.category}" → ${category}`);
+    }
+
+    // Уникальные id: пустые и повторяющиеся заменяем сгенерированными
+    let id =
+      typeof entry.id === "string" || typeof entry.id === "number" ? String(entry.id).trim() : "";
+    if (!id || usedIds.has(id)) {
+      let counter = actionItems.length + 1;
+      while (usedIds.has(`item-${counter}`)) counter++;
+      report("duplicate_id", `${path}.id`, `id "${id}" заменен на "item-${counter}"`);
+      id = `item-${counter}`;
+    }
+    usedIds.add(id);
+
+    const item: ActionItem = { id, title, description, difficulty, category };
+
+    // Без оценки времени задача оценивается по сложности (getActionItemMinutes)
+    const minutes = toNumber(entry.estimatedMinutes);
+    if (minutes === null) {
+      report("missing_field", `${path}.estimatedMinutes`, "Время будет оценено по сложности");
+    } else {
+      const clamped = Math.min(MAX_ITEM_MINUTES, Math.max(MIN_ITEM_MINUTES, Math.round(minutes)));
+      if (clamped !== minutes) {
+        report("value_clamped", `${path}.estimatedMinutes`, `${minutes} мин → ${clamped}`);
+      }
+      item.estimatedMinutes = clamped;
+    }
+
+    // Номер фото имеет смысл только при анализе нескольких фото
+    if (photoCount > 1) {
+      const photoIndex = toNumber(entry.photoIndex);
+      if (photoIndex === null) {
+        report("missing_field", `${path}.photoIndex`, "Задача не привязана к фото");
+      } else {
+        const clamped = Math.min(photoCount - 1, Math.max(0, Math.round(photoIndex)));
+        if (clamped !== photoIndex) {
+          report("value_clamped", `${path}.photoIndex`, `Номер фото ${photoIndex} → ${clamped}`);
+        }
+        item.photoIndex = clamped;
+      }
+    }
+
+    const boundingBox = readBoundingBox(entry.boundingBox, `${path}.boundingBox`, report);
+    if (boundingBox) {
+      item.boundingBox = boundingBox;
+    }
+
+    // Детали покупки нужны только для списка покупок; у других категорий они отбрасываются
+    if (category === "Buy") {
+      const purchase = readPurchase(entry.purchase, `${path}.purchase`, title, currency, report);
+      if (purchase) {
+        item.purchase = purchase;
+      }
+    } else if (entry.purchase !== undefined) {
+      report("item_dropped", `${path}.purchase`, "Детали покупки у задачи не из категории Buy");
+    }
+
+    actionItems.push(item);
+  });
+
+  // --- Советы по дизайну ---
+  let aestheticSuggestions: string[] = [];
+  if (Array.isArray(raw.aestheticSuggestions)) {
+    aestheticSuggestions = raw.aestheticSuggestions.filter(
+      (tip): tip is string => typeof tip === "string" && tip.trim().length > 0
+    );
+    if (aestheticSuggestions.length !== raw.aestheticSuggestions.length) {
+      report("item_dropped", "aestheticSuggestions", "Отброшены пустые или нестроковые советы");
+    }
+  } else if (typeof raw.aestheticSuggestions === "string") {
+    report("invalid_type", "aestheticSuggestions", "Строка приведена к списку");
+    aestheticSuggestions = [raw.aestheticSuggestions];
+  } else {
+    report("missing_field", "aestheticSuggestions", "Используется пустой список");
+  }
+
+  return {
+    analysis: {
+      roomType,
+      clutterLevel,
+      spaceUtilization: utilizationEntries,
+      summary,
+      actionItems,
+      aestheticSuggestions,
+    },
+    issues,
+  };
+}
+
+/**
+ * Парсит текст ответа и проверяет его.
+ * Ошибка парсинга возвращается как фатальная проблема, а не исключение.
+ */
+export function parseAndValidateRoomAnalysis(
+  jsonText: string,
+  options: ValidationOptions = {}
+): ValidationResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonText);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      analysis: null,
+      issues: [{ code: "invalid_json", path: "", message: reason, fatal: true }],
+    };
+  }
+  return validateRoomAnalysis(raw, options);
+}
@@ -0,0 +1,122 @@
+import { ChatMessage, GeminiContent, GeminiPart, RoomAnalysis } from "../types";
+import { buildChatSystemInstruction } from "./prompts";
+import { PLAN_TOOLS } from "./planTools";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Оценка размера следующего запроса чата */
+export interface ChatUsage {
+  tokens: number;
+  budget: number;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const DEFAULT_CHAT_TOKEN_BUDGET = 32000;
+
+/** Меньше не имеет смысла: фото комнаты и анализ передаются в каждом запросе */
+const MIN_CHAT_TOKEN_BUDGET = 4000;
+
+/** Символов на токен: для русского текста и JSON токенизаторы дают около трех */
+const CHARS_PER_TOKEN = 3;
+
+/**
+ * Оценка стоимости одного фото.
+ * Gemini режет крупные фото на плитки 768×768 по 258 токенов; фото после подготовки — до 6 плиток
+ */
+const IMAGE_TOKENS = 1500;
+
+/** Сколько последних сообщений передается дословно даже при сжатии */
+const RECENT_MESSAGES_TO_KEEP = 6;
+
+// ============================================================================
+// БЮДЖЕТ
+// ============================================================================
+
+/**
+ * Бюджет из VITE_CHAT_TOKEN_BUDGET (по умолчанию — 32000)
+ */
+function resolveChatTokenBudget(): number {
+  const raw = import.meta.env.VITE_CHAT_TOKEN_BUDGET?.trim();
+  if (!raw) return DEFAULT_CHAT_TOKEN_BUDGET;
+
+  const value = Number(raw);
+  if (Number.isFinite(value) && value >= MIN_CHAT_TOKEN_BUDGET) {
+    return Math.round(value);
+  }
+
+  console.error(
+    `❌ Некорректный VITE_CHAT_TOKEN_BUDGET "${raw}" (минимум ${MIN_CHAT_TOKEN_BUDGET}). Используется ${DEFAULT_CHAT_TOKEN_BUDGET}.`
+  );
+  return DEFAULT_CHAT_TOKEN_BUDGET;
+}
+
+/** Бюджет токенов на один запрос чата */
+export const CHAT_TOKEN_BUDGET = resolveChatTokenBudget();
+
+// ============================================================================
+// ПОДСЧЕТ ТОКЕНОВ
+// ============================================================================
+
+/**
+ * Приблизительное количество токенов в тексте.
+ * Точный подсчет зависит от модели; для решения о сжатии достаточно оценки
+ */
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Токены одной части сообщения
+ */
+function estimatePartTokens(part: GeminiPart): number {
+  if (part.inlineData) return IMAGE_TOKENS;
+  if (part.text) return estimateTextTokens(part.text);
+  if (part.functionCall) return estimateTextTokens(JSON.stringify(part.functionCall));
+  if (part.functionResponse) return estimateTextTokens(JSON.stringify(part.functionResponse));
+  return 0;
+}
+
+/**
+ * Токены истории сообщений
+ */
+export const estimateContentsTokens = (contents: GeminiContent[]): number =>
+  contents.reduce(
+    (total, content) =>
+      total + content.parts.reduce((sum, part) => sum + estimatePartTokens(part), 0),
+    0
+  );
+
+/**
+ * Полный размер запроса чата: системная инструкция с анализом, инструменты и история
+ */
+export function estimateChatRequestTokens(
+  history: GeminiContent[],
+  analysis: RoomAnalysis,
+  canEditPlan: boolean
+): number {
+  const systemInstruction = buildChatSystemInstruction(analysis, { canEditPlan });
+  return (
+    estimateTextTokens(systemInstruction) +
+    (canEditPlan ? estimateTextTokens(JSON.stringify(PLAN_TOOLS)) : 0) +
+    estimateContentsTokens(history)
+  );
+}
+
+// ============================================================================
+// СЖАТИЕ
+// ============================================================================
+
+/**
+ * Граница сжатия: сообщения [compactedCount, end) заменяются кратким содержанием.
+ * Последние сообщения остаются дословно; граница всегда перед вопросом пользователя,
+ * чтобы не разрывать пару «вопрос — ответ»
+ * @returns индекс границы или null, если сжимать нечего
+ */
+export function getCompactionEnd(messages: ChatMessage[], compactedCount: number): number | null {
+  let end = messages.length - RECENT_MESSAGES_TO_KEEP;
+  while (end > compactedCount && messages[end]?.role !== "user") end--;
+  return end > compactedCount ? end : null;
+}
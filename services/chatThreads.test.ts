@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ChatMessage, ChatThread } from "../types";
+import { buildChatHistory, createChatThread, getPersistableThread } from "./chatThreads";
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+const createMessage = (
+  role: ChatMessage["role"],
+  text: string,
+  status?: ChatMessage["status"]
+): ChatMessage => ({ id: text, role, text, timestamp: new Date(0), status });
+
+/** Тексты переписки в истории для модели (без фото комнаты и краткого содержания) */
+const getConversationTexts = (thread: ChatThread): string[] =>
+  buildChatHistory([], thread.messages, thread.summary)
+    .slice(thread.summary ? 4 : 2)
+    .map((content) => content.parts.map((part) => part.text).join(""));
+
+// ============================================================================
+// ТЕСТЫ
+// ============================================================================
+
+test("сохранение ветки с ошибкой в середине не сдвигает границу сжатия", () => {
+  const thread: ChatThread = {
+    ...createChatThread("Чат 1", [
+      createMessage("user", "вопрос 1"),
+      createMessage("model", "сбой", "error"),
+      createMessage("user", "вопрос 2"),
+      createMessage("model", "ответ 2"),
+      createMessage("user", "вопрос 3"),
+      createMessage("model", "ответ 3"),
+    ]),
+    summary: { text: "Обсудили вопросы 1 и 2.", messageCount: 4 },
+  };
+
+  // Ветка из истории — после сохранения и повторного открытия
+  const restored: ChatThread = JSON.parse(JSON.stringify(getPersistableThread(thread)));
+
+  assert.equal(restored.messages.length, 5);
+  assert.equal(restored.summary?.messageCount, 3);
+  assert.deepEqual(getConversationTexts(restored), getConversationTexts(thread));
+  assert.deepEqual(getConversationTexts(restored), ["вопрос 3", "ответ 3"]);
+});
+
+test("ветка без краткого содержания сохраняется без ошибок", () => {
+  const thread = createChatThread("Чат 1", [
+    createMessage("user", "вопрос"),
+    createMessage("model", "сбой", "error"),
+  ]);
+
+  const persisted = getPersistableThread(thread);
+
+  assert.deepEqual(persisted.messages.map((message) => message.text), ["вопрос"]);
+  assert.equal(persisted.summary, undefined);
+});
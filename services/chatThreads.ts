@@ -0,0 +1,151 @@
+import {
+  ActionItem,
+  ChatMessage,
+  ChatSummary,
+  ChatThread,
+  GeminiContent,
+  UploadedImage,
+} from "../types";
+import { revertActionItems } from "./actionPlan";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Текст ответа в истории для модели, если ассистент только изменил план */
+const PLAN_UPDATED_TEXT = "План обновлен.";
+
+/** Вопрос к фото, отправленному без подписи */
+const ATTACHED_PHOTO_TEXT = "Посмотри на это фото из той же комнаты.";
+
+// ============================================================================
+// ВЕТКИ
+// ============================================================================
+
+/**
+ * Создает новую ветку переписки
+ */
+export function createChatThread(title: string, messages: ChatMessage[] = []): ChatThread {
+  const now = new Date();
+  return { id: crypto.randomUUID(), title, messages, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Название для новой ветки: «Чат N» с первым свободным номером
+ */
+export function getNextThreadTitle(threads: ChatThread[]): string {
+  const titles = new Set(threads.map((thread) => thread.title));
+  let number = threads.length + 1;
+  while (titles.has(`Чат ${number}`)) number++;
+  return `Чат ${number}`;
+}
+
+/**
+ * Ветка для сохранения: без неудачных ответов.
+ * Граница сжатия пересчитывается по оставшимся сообщениям, иначе после открытия из истории
+ * она сдвинется на число удаленных ошибок и несжатые сообщения выпадут из контекста
+ */
+export function getPersistableThread(thread: ChatThread): ChatThread {
+  const isPersistable = (message: ChatMessage) => message.status !== "error";
+  const { summary } = thread;
+
+  return {
+    ...thread,
+    messages: thread.messages.filter(isPersistable),
+    summary: summary && {
+      ...summary,
+      messageCount: thread.messages.slice(0, summary.messageCount).filter(isPersistable).length,
+    },
+  };
+}
+
+// ============================================================================
+// ИСТОРИЯ ДЛЯ МОДЕЛИ
+// ============================================================================
+
+/**
+ * Текст сообщения для модели (пустые сообщения с фото или изменением плана получают подпись)
+ */
+export function getMessageTextForModel(message: ChatMessage): string {
+  if (message.text) return message.text;
+  if (message.image) return ATTACHED_PHOTO_TEXT;
+  return message.planChange ? PLAN_UPDATED_TEXT : "";
+}
+
+/**
+ * Сообщения ветки в формате API.
+ * Ошибки и пустые остановленные ответы модели в контекст не попадают
+ */
+export function messagesToContents(messages: ChatMessage[]): GeminiContent[] {
+  return messages
+    .filter((message) => message.status !== "error" && getMessageTextForModel(message))
+    .map(
+      (message): GeminiContent => ({
+        role: message.role,
+        parts: [
+          // Фото из переписки остаются в контексте, чтобы модель могла к ним вернуться
+          ...(message.image
+            ? [{ inlineData: { mimeType: message.image.mimeType, data: message.image.data } }]
+            : []),
+          { text: getMessageTextForModel(message) },
+        ],
+      })
+    );
+}
+
+/**
+ * История для API: фото комнаты и переписка ветки до нового вопроса.
+ * Строится заново перед каждым запросом, поэтому правка и перегенерация
+ * сводятся к обрезке списка сообщений.
+ * Фото комнаты закреплены в начале; сжатые сообщения заменяются кратким содержанием
+ */
+export function buildChatHistory(
+  images: UploadedImage[],
+  messages: ChatMessage[],
+  summary?: ChatSummary
+): GeminiContent[] {
+  const summaryContents: GeminiContent[] = summary
+    ? [
+        {
+          role: "user",
+          parts: [{ text: `Краткое содержание нашей предыдущей беседы:\n${summary.text}` }],
+        },
+        { role: "model", parts: [{ text: "Понял, продолжаем с учетом этого." }] },
+      ]
+    : [];
+
+  return [
+    {
+      role: "user",
+      parts: [
+        ...images.map((image) => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        {
+          text:
+            images.length > 1
+              ? `Вот ${images.length} фото комнаты, которую я хочу организовать (в порядке нумерации).`
+              : "Вот фото комнаты, которую я хочу организовать.",
+        },
+      ],
+    },
+    {
+      role: "model",
+      parts: [{ text: "Понял. Я проанализировал изображение и готов помочь вам навести порядок." }],
+    },
+    ...summaryContents,
+    ...messagesToContents(messages.slice(summary?.messageCount ?? 0)),
+  ];
+}
+
+/**
+ * Откатывает изменения плана из отбрасываемых ответов (от последнего к первому).
+ * Уже отмененные пользователем изменения пропускаются
+ */
+export function revertPlanChanges(items: ActionItem[], discarded: ChatMessage[]): ActionItem[] {
+  return discarded.reduceRight(
+    (current, message) =>
+      message.planChange && !message.planChange.undone
+        ? revertActionItems(current, message.planChange.before, message.planChange.after)
+        : current,
+    items
+  );
+}
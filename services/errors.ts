@@ -0,0 +1,202 @@
+import { AIErrorKind, ProxyError } from "../types";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Что может сделать пользователь при ошибке каждого вида */
+export const AI_ERROR_HINTS: Record<AIErrorKind, string> = {
+  region: "Подключитесь через VPN к серверу в США или Европе либо выберите другого провайдера (VITE_AI_PROVIDER).",
+  quota: "Подождите минуту и повторите. Если лимит суточный — попробуйте завтра или используйте другой ключ.",
+  auth: "Проверьте ключ в файле .env (VITE_API_KEY или VITE_OPENAI_API_KEY) и перезапустите приложение.",
+  timeout: "Сервис отвечает слишком долго. Повторите попытку; для анализа можно загрузить меньше фото.",
+  safety: "Модель отказалась обрабатывать запрос. Переформулируйте вопрос или загрузите другое фото.",
+  parse: "Модель вернула ответ в неожиданном формате. Обычно помогает повторный запрос.",
+  network: "Проверьте подключение к интернету (или что локальный сервер модели запущен) и повторите.",
+  config: "Проверьте настройки провайдера в файле .env и перезапустите приложение.",
+  unknown: "Повторите попытку. Если ошибка не исчезает, подробности есть в консоли браузера.",
+};
+
+/** HTTP-статусы, при которых имеет смысл повторить запрос к серверу */
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+// ============================================================================
+// КЛАССЫ ОШИБОК
+// ============================================================================
+
+/**
+ * Ошибка обращения к AI-сервису с понятным пользователю текстом.
+ * kind определяет подсказку и оформление, retryable — можно ли повторить запрос автоматически
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+
+  constructor(
+    kind: AIErrorKind,
+    message: string,
+    { retryable = false, cause }: { retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, { cause });
+    this.name = "AIServiceError";
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+
+  /** Что может сделать пользователь */
+  get hint(): string {
+    return AI_ERROR_HINTS[this.kind];
+  }
+}
+
+/** Сервис недоступен в регионе пользователя */
+export class RegionBlockedError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super("region", "AI-сервис недоступен в вашем регионе.", { cause });
+  }
+}
+
+/** Превышен лимит запросов */
+export class QuotaExceededError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super("quota", "Превышен лимит запросов к API.", { retryable: true, cause });
+  }
+}
+
+/** Неверный или отсутствующий ключ API */
+export class AuthError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super("auth", "Неверный API ключ или нет доступа к модели.", { cause });
+  }
+}
+
+/** Сервис не ответил за отведенное время */
+export class TimeoutError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super("timeout", "Сервис не ответил вовремя.", { retryable: true, cause });
+  }
+}
+
+/** Запрос или ответ заблокирован фильтрами безопасности модели */
+export class SafetyBlockError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super("safety", "Запрос заблокирован фильтрами безопасности модели.", { cause });
+  }
+}
+
+/** Ответ модели не удалось разобрать */
+export class ResponseParseError extends AIServiceError {
+  constructor(message = "Не удалось разобрать ответ модели.", cause?: unknown) {
+    super("parse", message, { cause });
+  }
+}
+
+/** Нет соединения или сервер временно недоступен */
+export class NetworkError extends AIServiceError {
+  constructor(message = "Не удалось связаться с AI-сервисом.", cause?: unknown) {
+    super("network", message, { retryable: true, cause });
+  }
+}
+
+/** Провайдер не настроен (нет ключа, адреса сервера) */
+export class ConfigurationError extends AIServiceError {
+  constructor(message: string) {
+    super("config", message);
+  }
+}
+
+/**
+ * Ошибка HTTP от сервера провайдера (для провайдеров на fetch)
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(`${status} ${message}`);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// КЛАССИФИКАЦИЯ
+// ============================================================================
+
+/**
+ * Остановка запроса пользователем (не ошибка, повторять не нужно)
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * HTTP-статус из ошибки SDK Gemini (ApiError.status) или HttpStatusError
+ */
+function getStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const status = (error as { status?: unknown }).status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Приводит любую ошибку провайдера к AIServiceError.
+ * SDK и серверы сообщают причину по-разному, поэтому учитываются и статус, и текст
+ * @param fallbackMessage - текст для нераспознанной ошибки
+ */
+export function toAIServiceError(
+  error: unknown,
+  fallbackMessage = "Непредвиденная ошибка AI-сервиса."
+): AIServiceError {
+  if (error instanceof AIServiceError) return error;
+
+  const status = getStatus(error);
+  const text = error instanceof Error ? error.message : JSON.stringify(error);
+
+  if (/location is not supported|region not supported|FAILED_PRECONDITION/i.test(text)) {
+    return new RegionBlockedError(error);
+  }
+  if (status === 429 || /quota|RESOURCE_EXHAUSTED|rate limit/i.test(text)) {
+    return new QuotaExceededError(error);
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    /API[_ ]KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text)
+  ) {
+    return new AuthError(error);
+  }
+  if (status === 408 || /DEADLINE_EXCEEDED|timed? ?out/i.test(text)) {
+    return new TimeoutError(error);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(text)) {
+    return new SafetyBlockError(error);
+  }
+  if (status !== undefined && RETRYABLE_SERVER_STATUSES.includes(status)) {
+    return new NetworkError("AI-сервис временно недоступен.", error);
+  }
+  // fetch сообщает о сетевом сбое TypeError без статуса; узнаем его по тексту,
+  // чтобы прочие TypeError (ошибки в коде) не повторялись как сетевые
+  if (/Failed to fetch|NetworkError|fetch failed|Load failed|ECONNREFUSED/i.test(text)) {
+    return new NetworkError(undefined, error);
+  }
+
+  return new AIServiceError("unknown", fallbackMessage, { cause: error });
+}
+
+// ============================================================================
+// ПЕРЕДАЧА ЧЕРЕЗ СЕРВЕР-ПРОКСИ
+// ============================================================================
+
+/**
+ * Ошибка в виде, пригодном для ответа сервера-прокси
+ */
+export const toProxyError = (error: AIServiceError): ProxyError => ({
+  kind: error.kind,
+  message: error.message,
+  retryable: error.retryable,
+});
+
+/**
+ * Восстанавливает ошибку из ответа сервера-прокси (вид и возможность повтора сохраняются)
+ */
+export const fromProxyError = ({ kind, message, retryable }: ProxyError): AIServiceError =>
+  new AIServiceError(kind, message, { retryable });
@@ -1,27 +1,91 @@
-import { GoogleGenAI } from "@google/genai";
-import { RoomAnalysis, GeminiContent, GeminiPart } from "../types";
+import {
+  ActionItem,
+  AnalysisStage,
+  ChatInstructionContext,
+  ChatStreamChunk,
+  ChatToolCall,
+  RoomAnalysis,
+  GeminiContent,
+  GeminiPart,
+  UploadedImage,
+  VisionChatRequest,
+  VisionProvider,
+} from "../types";
+import { getVisionProvider } from "./providers";
+import {
+  AnalysisPromptOptions,
+  CHAT_SUMMARY_INSTRUCTION,
+  buildAnalysisPrompt,
+  buildChatSummaryPrompt,
+  buildAnalysisRepairPrompt,
+  resolveChatSystemInstruction,
+} from "./prompts";
+import { ValidationResult, parseAndValidateRoomAnalysis } from "./analysisValidator";
+import { PLAN_TOOLS, applyPlanToolCalls } from "./planTools";
+import {
+  AIServiceError,
+  ConfigurationError,
+  ResponseParseError,
+  TimeoutError,
+  toAIServiceError,
+} from "./errors";
+import { createTimeoutScope, withRetry, withTimeout } from "./retry";
+import { DEFAULT_CURRENCY } from "./shoppingList";
 
 // ============================================================================
-// КОНФИГУРАЦИЯ
+// ТИПЫ
 // ============================================================================
 
-const API_KEY = import.meta.env.VITE_API_KEY as string | undefined;
-const MODEL_NAME = "gemini-2.0-flash";
+/** Параметры запроса анализа */
+export interface AnalysisRequestOptions {
+  /** Отмена анализа */
+  signal?: AbortSignal;
+  /** Вызывается при переходе к следующему этапу — для сообщений о ходе анализа */
+  onStageChange?: (stage: AnalysisStage) => void;
+  /** Валюта цен покупок, код ISO 4217 (по умолчанию — RUB) */
+  currency?: string;
+}
+
+/** Параметры запроса к чату */
+export interface ChatRequestOptions {
+  /** Анализ, который видит пользователь: передается модели как контекст */
+  analysis?: RoomAnalysis;
+  /** Опциональное изображение для контекста */
+  image?: UploadedImage;
+  /** Остановка генерации */
+  signal?: AbortSignal;
+  /** Вызывается с накопленным текстом ответа по мере генерации */
+  onChunk?: (text: string) => void;
+  /** Изменение плана ассистентом; без коллбека инструменты модели не передаются */
+  onActionItemsChange?: (items: ActionItem[]) => void;
+}
 
-// Проверка наличия API ключа при инициализации
-if (!API_KEY) {
-  console.error("❌ VITE_API_KEY не найден! Создайте файл .env с ключом.");
+/** Ответ ассистента */
+export interface ChatReply {
+  text: string;
+  /** Итоговый план, если ассистент его изменил */
+  actionItems?: ActionItem[];
 }
 
-// Инициализация клиента (lazy - ошибка будет при первом запросе если нет ключа)
-const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Сколько раз подряд модель может вызвать инструменты в одном ответе */
+const MAX_TOOL_ROUNDS = 3;
+
+/** Время ожидания ответа на запрос анализа (одна попытка) */
+const ANALYSIS_TIMEOUT_MS = 90_000;
+
+/** Сколько чат может ждать следующий фрагмент ответа */
+const CHAT_IDLE_TIMEOUT_MS = 30_000;
 
 // ============================================================================
 // ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
 // ============================================================================
 
 /**
- * Очищает текст от артефактов модели:
+ * Очищает текст от артефактов модели (только для запасного пути без schema):
  * - Удаляет английские пояснения в скобках
  * - Удаляет markdown-форматирование (**жирный**)
  * - Удаляет служебные префиксы (Description:, Translation: и т.д.)
@@ -48,7 +112,7 @@ function cleanText(text: string): string {
 }
 
 /**
- * Извлекает JSON объект из ответа модели.
+ * Извлекает JSON объект из ответа модели (запасной путь без schema).
  * Модель может обернуть JSON в ```json ... ``` блоки.
  */
 function extractJSON(text: string): string {
@@ -63,201 +127,360 @@ function extractJSON(text: string): string {
 }
 
 /**
- * Проверяет доступность API и бросает понятную ошибку
+ * Очищает все текстовые поля анализа от артефактов модели
  */
-function ensureApiAvailable(): void {
-  if (!API_KEY || !ai) {
-    throw new Error("API ключ не настроен. Создайте файл .env с VITE_API_KEY.");
-  }
+function cleanAnalysisText(analysis: RoomAnalysis): RoomAnalysis {
+  return {
+    ...analysis,
+    roomType: cleanText(analysis.roomType),
+    summary: cleanText(analysis.summary),
+    actionItems: analysis.actionItems.map((item) => ({
+      ...item,
+      title: cleanText(item.title),
+      description: cleanText(item.description),
+    })),
+    aestheticSuggestions: analysis.aestheticSuggestions.map(cleanText),
+    spaceUtilization: analysis.spaceUtilization.map((s) => ({
+      ...s,
+      name: cleanText(s.name),
+    })),
+  };
 }
 
-// ============================================================================
-// ПРОМПТЫ
-// ============================================================================
+/**
+ * Парсит и проверяет текст ответа модели на запрос анализа.
+ * Ответ structured output разбирается напрямую; извлечение JSON регуляркой
+ * и очистка текста применяются только как запасной путь.
+ * @param responseText - сырой ответ модели
+ * @param options - параметры запроса (структурированный ответ, число фото)
+ */
+function parseAnalysisResponse(
+  responseText: string,
+  { structured, photoCount, currency }: AnalysisPromptOptions
+): ValidationResult {
+  if (!responseText.trim()) {
+    return {
+      analysis: null,
+      issues: [{ code: "invalid_json", path: "", message: "Пустой ответ от модели", fatal: true }],
+    };
+  }
 
-const ANALYSIS_PROMPT = `Ты профессиональный организатор пространства. Проанализируй фото комнаты и верни ТОЛЬКО валидный JSON на русском языке в следующем формате (без markdown, без \`\`\`):
-{
-  "roomType": "Тип комнаты (1-2 слова)",
-  "clutterLevel": число от 0 до 100,
-  "summary": "Краткое резюме состояния (1-2 предложения)",
-  "spaceUtilization": [
-    {"name": "Мебель", "value": число},
-    {"name": "Свободное место", "value": число},
-    {"name": "Хлам", "value": число}
-  ],
-  "actionItems": [
-    {
-      "id": "1",
-      "title": "Короткий заголовок",
-      "description": "Описание действия",
-      "difficulty": "Easy",
-      "category": "Discard"
+  if (structured) {
+    const result = parseAndValidateRoomAnalysis(responseText, { photoCount, currency });
+    if (!result.issues.some((issue) => issue.code === "invalid_json")) {
+      return result;
     }
-  ],
-  "aestheticSuggestions": ["Совет 1", "Совет 2"]
+    console.warn("Ответ со схемой не является JSON, используется запасной разбор");
+  }
+
+  const fallback = parseAndValidateRoomAnalysis(extractJSON(responseText), {
+    photoCount,
+    currency,
+  });
+  return {
+    ...fallback,
+    analysis: fallback.analysis && cleanAnalysisText(fallback.analysis),
+  };
+}
+
+/**
+ * Проверяет готовность провайдера и бросает понятную ошибку
+ */
+function ensureProviderReady(provider: VisionProvider): void {
+  const configError = provider.getConfigurationError();
+  if (configError) {
+    throw new ConfigurationError(configError);
+  }
+}
+
+/**
+ * Сообщает в консоль о повторе запроса после временной ошибки
+ */
+function logRetry(error: AIServiceError, attempt: number, delayMs: number): void {
+  console.warn(`Повтор запроса №${attempt} через ${delayMs} мс:`, error.message);
 }
 
-Важно:
-- difficulty может быть только: "Easy", "Medium", "Hard"
-- category может быть только: "Discard", "Organize", "Buy"
-- Все тексты на русском языке
-- Верни только JSON без дополнительного текста`;
+/**
+ * Поток ответа провайдера с тайм-аутом бездействия: если новые фрагменты
+ * не приходят дольше CHAT_IDLE_TIMEOUT_MS, запрос прерывается
+ * @throws TimeoutError при срабатывании тайм-аута
+ */
+async function* streamWithIdleTimeout(
+  provider: VisionProvider,
+  request: VisionChatRequest
+): AsyncGenerator<ChatStreamChunk> {
+  const scope = createTimeoutScope(CHAT_IDLE_TIMEOUT_MS, request.signal);
+  try {
+    for await (const chunk of provider.streamChat({ ...request, signal: scope.signal })) {
+      if (scope.signal.aborted) break;
+      scope.reset();
+      yield chunk;
+    }
+  } catch (error) {
+    if (!scope.timedOut) throw error;
+  } finally {
+    scope.clear();
+  }
 
-const CHAT_SYSTEM_INSTRUCTION = 
-  "Ты TidyAI - дружелюбный помощник по организации пространства. " +
-  "Отвечай кратко, по делу и только на русском языке. " +
-  "Если пользователь спрашивает о конкретных товарах, предлагай общие категории, а не бренды.";
+  if (scope.timedOut) throw new TimeoutError();
+}
 
 // ============================================================================
 // ОСНОВНЫЕ ФУНКЦИИ API
 // ============================================================================
 
 /**
- * Анализирует изображение комнаты и возвращает структурированный отчет
- * @param base64Image - изображение в формате base64 (без data URL префикса)
+ * Анализирует фото комнаты и возвращает один общий структурированный отчет.
+ * При нескольких фото задачи помечаются номером фото (photoIndex).
+ * Каждая попытка ограничена по времени; временные ошибки повторяются с паузой.
+ * Через прокси повторы, тайм-аут попытки и исправление ответа выполняет сервер —
+ * клиент отправляет один запрос, чтобы одна ошибка не превращалась в цепочку платных вызовов.
+ * @param images - подготовленные фото одной комнаты с реальными MIME-типами
+ * @param options - сигнал отмены и коллбек этапов анализа
+ * @throws AIServiceError с видом ошибки и понятным пользователю текстом
  */
-export async function analyzeRoomImage(base64Image: string): Promise<RoomAnalysis> {
-  ensureApiAvailable();
+export async function analyzeRoomImage(
+  images: UploadedImage[],
+  { signal, onStageChange, currency = DEFAULT_CURRENCY }: AnalysisRequestOptions = {}
+): Promise<RoomAnalysis> {
+  const provider = getVisionProvider();
+  ensureProviderReady(provider);
+  const handledByServer = provider.id === "proxy";
 
-  try {
-    const response = await ai!.models.generateContent({
-      model: MODEL_NAME,
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              inlineData: {
-                mimeType: "image/jpeg",
-                data: base64Image,
-              },
-            },
-            {
-              text: ANALYSIS_PROMPT,
-            },
-          ],
-        },
-      ],
-    });
+  /** Запрос к модели с тайм-аутом и повторами (у прокси — один запрос к серверу) */
+  const requestAnalysis = (prompt: string) => {
+    if (handledByServer) return provider.analyzeImage({ images, prompt, currency, signal });
 
-    const responseText = response.text;
-    if (!responseText) {
-      throw new Error("Пустой ответ от модели");
-    }
+    return withRetry(
+      () =>
+        withTimeout(
+          (attemptSignal) =>
+            provider.analyzeImage({ images, prompt, currency, signal: attemptSignal }),
+          ANALYSIS_TIMEOUT_MS,
+          signal
+        ),
+      {
+        signal,
+        onRetry: (error, attempt, delayMs) => {
+          logRetry(error, attempt, delayMs);
+          onStageChange?.("retry");
+        },
+      }
+    );
+  };
 
-    // Парсим JSON из ответа
-    const jsonString = extractJSON(responseText);
-    const rawData = JSON.parse(jsonString) as RoomAnalysis;
-
-    // Очищаем все текстовые поля от артефактов
-    const cleanedData: RoomAnalysis = {
-      ...rawData,
-      roomType: cleanText(rawData.roomType),
-      summary: cleanText(rawData.summary),
-      actionItems: rawData.actionItems.map((item) => ({
-        ...item,
-        title: cleanText(item.title),
-        description: cleanText(item.description),
-      })),
-      aestheticSuggestions: rawData.aestheticSuggestions.map(cleanText),
-      spaceUtilization: rawData.spaceUtilization.map((s) => ({
-        ...s,
-        name: cleanText(s.name),
-      })),
+  try {
+    const promptOptions: AnalysisPromptOptions = {
+      structured: provider.supportsStructuredOutput,
+      photoCount: images.length,
+      currency,
     };
 
-    return cleanedData;
-    
-  } catch (error: unknown) {
-    console.error("Ошибка анализа комнаты:", error);
-    
-    // Преобразуем ошибку в строку для анализа
-    const errorString = error instanceof Error ? error.message : JSON.stringify(error);
-    
-    // Обработка известных ошибок API (региональные ограничения)
-    if (
-      errorString.includes("User location is not supported") ||
-      errorString.includes("FAILED_PRECONDITION") ||
-      errorString.includes("Region not supported") ||
-      errorString.includes("location is not supported") ||
-      (errorString.includes("400") && errorString.includes("not supported"))
-    ) {
-      throw new Error(
-        "Gemini API недоступен в вашем регионе. Попробуйте использовать VPN (например, подключиться к серверу в США или Европе)."
+    onStageChange?.("request");
+    let responseText = await requestAnalysis(buildAnalysisPrompt(promptOptions));
+    onStageChange?.("validate");
+    let result = parseAnalysisResponse(responseText, promptOptions);
+
+    // Ответ не удалось восстановить — один раз просим модель исправить JSON
+    if (!result.analysis && !handledByServer) {
+      console.warn("Некорректный ответ модели, повторный запрос:", result.issues);
+      const problems = result.issues.map((issue) => `${issue.path || "ответ"}: ${issue.message}`);
+
+      onStageChange?.("repair");
+      responseText = await requestAnalysis(
+        buildAnalysisRepairPrompt(responseText, problems, promptOptions)
       );
+      onStageChange?.("validate");
+      result = parseAnalysisResponse(responseText, promptOptions);
     }
-    
-    if (errorString.includes("quota") || errorString.includes("429")) {
-      throw new Error("Превышен лимит запросов к API. Попробуйте позже.");
+
+    if (!result.analysis) {
+      throw new ResponseParseError(
+        handledByServer
+          ? "Сервер вернул анализ, который не удалось разобрать."
+          : "Модель дважды вернула ответ, который не удалось восстановить."
+      );
     }
-    
-    if (errorString.includes("API_KEY") || errorString.includes("invalid")) {
-      throw new Error("Неверный API ключ. Проверьте настройки в файле .env");
+
+    if (result.issues.length > 0) {
+      console.warn("Ответ модели исправлен валидатором:", result.issues);
     }
+
+    return result.analysis;
     
-    // Общая ошибка с понятным сообщением
-    throw new Error("Не удалось проанализировать изображение. Попробуйте еще раз.");
+  } catch (error: unknown) {
+    // Отмена пользователем — не ошибка сервиса, пробрасываем как есть
+    if (signal?.aborted) throw error;
+
+    console.error("Ошибка анализа комнаты:", error);
+    throw toAIServiceError(error, "Не удалось проанализировать изображение.");
   }
 }
 
 /**
- * Отправляет сообщение в чат с контекстом предыдущей беседы
+ * Отправляет сообщение в чат с контекстом предыдущей беседы.
+ * Ответ приходит по частям: onChunk получает весь накопленный текст.
+ * Если передан onActionItemsChange, ассистент может менять план через инструменты:
+ * каждое изменение сразу сообщается коллбеком, а модель получает результат и продолжает ответ.
+ * При остановке через signal возвращается уже полученная часть ответа.
+ * Если фрагменты долго не приходят, запрос прерывается по тайм-ауту; раунд, в котором
+ * модель еще ничего не ответила, повторяется при временных ошибках.
  * @param history - история сообщений для контекста
  * @param newMessage - новое сообщение пользователя
- * @param base64Image - опциональное изображение для контекста
+ * @param options - анализ для контекста, изображение, сигнал остановки и коллбеки
+ * @throws AIServiceError с видом ошибки и понятным пользователю текстом
  */
 export async function sendChatMessage(
   history: GeminiContent[],
   newMessage: string,
-  base64Image?: string
-): Promise<string> {
-  if (!API_KEY || !ai) {
-    return "Ошибка: API ключ не настроен";
+  { analysis, image, signal, onChunk, onActionItemsChange }: ChatRequestOptions = {}
+): Promise<ChatReply> {
+  const provider = getVisionProvider();
+  ensureProviderReady(provider);
+
+  // Формируем части нового сообщения
+  const newParts: GeminiPart[] = [];
+
+  if (image) {
+    newParts.push({
+      inlineData: {
+        mimeType: image.mimeType,
+        data: image.data,
+      },
+    });
   }
 
+  newParts.push({ text: newMessage });
+
+  // Добавляем новое сообщение к копии истории (исходный массив не мутируем)
+  let contents: GeminiContent[] = [...history, { role: "user", parts: newParts }];
+
+  const canEditPlan = !!analysis && !!onActionItemsChange;
+  let currentAnalysis = analysis;
+  let planChanged = false;
+  let responseText = "";
+
   try {
-    // Преобразуем историю в формат API
-    const contents = history.map((msg) => ({
-      role: msg.role,
-      parts: msg.parts.map((part: GeminiPart) => {
-        if (part.text) return { text: part.text };
-        if (part.inlineData) return { inlineData: part.inlineData };
-        return { text: "" };
-      }),
-    }));
-
-    // Формируем части нового сообщения
-    const newParts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [];
-    
-    if (base64Image) {
-      newParts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: base64Image,
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const calls: ChatToolCall[] = [];
+      let roundText = "";
+
+      // Повтор возможен, пока модель ничего не ответила: иначе текст задвоится
+      await withRetry(
+        async () => {
+          const context: ChatInstructionContext = {
+            purpose: "chat",
+            analysis: currentAnalysis,
+            canEditPlan,
+          };
+          // На последнем раунде инструменты не передаем — модель должна ответить текстом
+          for await (const chunk of streamWithIdleTimeout(provider, {
+            history: contents,
+            systemInstruction: resolveChatSystemInstruction(context),
+            context,
+            tools: canEditPlan && round < MAX_TOOL_ROUNDS ? PLAN_TOOLS : undefined,
+            signal,
+          })) {
+            if (signal?.aborted) break;
+            if (chunk.type === "text") {
+              roundText += chunk.text;
+              responseText += chunk.text;
+              onChunk?.(responseText);
+            } else {
+              // id нужен, чтобы сопоставить вызов с результатом (OpenAI-совместимые серверы)
+              calls.push({
+                ...chunk.call,
+                id: chunk.call.id ?? `call-${round}-${calls.length}`,
+              });
+            }
+          }
         },
-      });
-    }
-    
-    newParts.push({ text: newMessage });
+        { signal, shouldRetry: () => !roundText && calls.length === 0, onRetry: logRetry }
+      );
 
-    // Добавляем новое сообщение в контент
-    contents.push({
-      role: "user" as const,
-      parts: newParts,
-    });
+      if (signal?.aborted || calls.length === 0 || !currentAnalysis || !onActionItemsChange) break;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: contents,
-      config: {
-        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
-      },
-    });
+      // Применяем изменения плана и возвращаем модели результат каждого вызова
+      const outcome = applyPlanToolCalls(currentAnalysis.actionItems, calls);
+      if (outcome.items !== currentAnalysis.actionItems) {
+        currentAnalysis = { ...currentAnalysis, actionItems: outcome.items };
+        planChanged = true;
+        onActionItemsChange(outcome.items);
+      }
 
-    return response.text || "Извините, не удалось сгенерировать ответ.";
-    
+      contents = [
+        ...contents,
+        {
+          role: "model",
+          parts: [
+            ...(roundText ? [{ text: roundText }] : []),
+            ...calls.map((call) => ({ functionCall: call })),
+          ],
+        },
+        { role: "user", parts: outcome.results.map((result) => ({ functionResponse: result })) },
+      ];
+    }
   } catch (error: unknown) {
+    const reply = planChanged ? { text: responseText, actionItems: currentAnalysis?.actionItems } : null;
+
+    // Остановка пользователем — не ошибка
+    if (signal?.aborted) return reply ?? { text: responseText };
+
     console.error("Ошибка чата:", error);
-    return "Произошла ошибка при обращении к AI. Попробуйте еще раз.";
+
+    // План уже изменен — показываем изменение (его можно отменить), а не ошибку
+    if (reply) return reply;
+
+    throw toAIServiceError(error, "Не удалось получить ответ.");
+  }
+
+  if (!responseText && !planChanged && !signal?.aborted) {
+    throw new ResponseParseError("Модель вернула пустой ответ.");
+  }
+
+  return {
+    text: responseText,
+    actionItems: planChanged ? currentAnalysis?.actionItems : undefined,
+  };
+}
+
+/**
+ * Сжимает раннюю часть переписки в краткое содержание
+ * @param contents - сжимаемые сообщения в формате API (начинаются с вопроса пользователя)
+ * @param previousSummary - содержание еще более ранней части, если оно уже было
+ * @param signal - остановка вместе с ответом, ради которого сжимается переписка
+ */
+export async function summarizeChat(
+  contents: GeminiContent[],
+  previousSummary?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const provider = getVisionProvider();
+  ensureProviderReady(provider);
+
+  const request: GeminiContent = {
+    role: "user",
+    parts: [{ text: buildChatSummaryPrompt(previousSummary) }],
+  };
+
+  const summary = await withRetry(
+    async () => {
+      let text = "";
+      for await (const chunk of streamWithIdleTimeout(provider, {
+        history: [...contents, request],
+        systemInstruction: CHAT_SUMMARY_INSTRUCTION,
+        context: { purpose: "summary" },
+        signal,
+      })) {
+        if (chunk.type === "text") text += chunk.text;
+      }
+      return text;
+    },
+    { signal, onRetry: logRetry }
+  );
+
+  if (!summary.trim()) {
+    throw new ResponseParseError("Модель вернула пустое краткое содержание.");
   }
+  return summary.trim();
 }
@@ -0,0 +1,276 @@
+import {
+  AnalysisSession,
+  ChatMessage,
+  FocusSessionRecord,
+  Room,
+  RoomAnalysis,
+  UploadedImage,
+} from "../types";
+import { toDataUrl } from "./imagePreprocessing";
+import { createChatThread } from "./chatThreads";
+
+// ============================================================================
+// КОНФИГУРАЦИЯ
+// ============================================================================
+
+const DB_NAME = "tidyai";
+const DB_VERSION = 3;
+const SESSIONS_STORE = "sessions";
+const ROOMS_STORE = "rooms";
+const ANALYSIS_CACHE_STORE = "analysisCache";
+
+/** Максимальная сторона миниатюры в пикселях */
+const THUMBNAIL_SIZE = 320;
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Оборачивает IDBRequest в Promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Открывает базу данных (соединение создается один раз)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Миграции выполняются последовательно от текущей версии базы
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+
+        if (event.oldVersion < 2) {
+          transaction.objectStore(SESSIONS_STORE).createIndex("roomId", "roomId");
+          db.createObjectStore(ROOMS_STORE, { keyPath: "id" });
+        }
+
+        if (event.oldVersion < 3) {
+          const store = db.createObjectStore(ANALYSIS_CACHE_STORE, { keyPath: "key" });
+          store.createIndex("lastUsedAt", "lastUsedAt");
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Сессия в формате прошлых версий: одно фото в поле image, одна переписка в поле chat */
+type LegacySession = Omit<AnalysisSession, "images" | "threads"> & {
+  images?: UploadedImage[];
+  image?: UploadedImage | string;
+  threads?: AnalysisSession["threads"];
+  chat?: ChatMessage[];
+};
+
+/**
+ * Приводит сессию, сохраненную старой версией приложения, к текущему формату
+ */
+function normalizeSession(stored: AnalysisSession): AnalysisSession {
+  const { image, chat, ...rest } = stored as LegacySession;
+
+  // До поддержки нескольких фото было одно фото; до поддержки MIME-типов — строка base64 (JPEG)
+  const images =
+    rest.images ??
+    [typeof image === "string" ? { data: image, mimeType: "image/jpeg" } : image!];
+
+  // До поддержки веток была одна переписка — она становится первой веткой
+  const threads = rest.threads ?? (chat?.length ? [createChatThread("Чат 1", chat)] : []);
+
+  return { ...rest, images, threads };
+}
+
+/**
+ * Открывает транзакцию над одним хранилищем
+ */
+async function getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+const getSessionsStore = (mode: IDBTransactionMode) => getStore(SESSIONS_STORE, mode);
+const getRoomsStore = (mode: IDBTransactionMode) => getStore(ROOMS_STORE, mode);
+
+/** Хранилище кэша анализов (работа с кэшем — в analysisCache.ts) */
+export const getAnalysisCacheStore = (mode: IDBTransactionMode) =>
+  getStore(ANALYSIS_CACHE_STORE, mode);
+
+/**
+ * Создает уменьшенную копию изображения (data URL JPEG) для списка истории и общих планов
+ * @param maxSize - максимальная сторона миниатюры в пикселях
+ */
+export function createThumbnail(
+  image: UploadedImage,
+  maxSize = THUMBNAIL_SIZE
+): Promise<string> {
+  const source = toDataUrl(image);
+
+  return new Promise((resolve) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        resolve(source);
+        return;
+      }
+
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+
+    // Если браузер не смог декодировать фото — используем оригинал
+    img.onerror = () => resolve(source);
+    img.src = source;
+  });
+}
+
+// ============================================================================
+// API ХРАНИЛИЩА
+// ============================================================================
+
+/**
+ * Создает и сохраняет новую сессию после успешного анализа
+ * @param images - исходные фото комнаты
+ * @param analysis - результат анализа
+ * @param roomId - комната, к которой относится анализ
+ */
+export async function createSession(
+  images: UploadedImage[],
+  analysis: RoomAnalysis,
+  roomId?: string
+): Promise<AnalysisSession> {
+  const now = new Date();
+  const session: AnalysisSession = {
+    id: crypto.randomUUID(),
+    label: analysis.roomType,
+    roomId,
+    createdAt: now,
+    updatedAt: now,
+    images,
+    thumbnail: await createThumbnail(images[0]),
+    analysis,
+    threads: [],
+  };
+
+  const store = await getSessionsStore("readwrite");
+  await requestToPromise(store.put(session));
+  return session;
+}
+
+/**
+ * Возвращает все сессии, новые — первыми
+ */
+export async function listSessions(): Promise<AnalysisSession[]> {
+  const store = await getSessionsStore("readonly");
+  const sessions = await requestToPromise(store.index("createdAt").getAll());
+  return (sessions as AnalysisSession[]).map(normalizeSession).reverse();
+}
+
+/**
+ * Возвращает сессию по id или null
+ */
+export async function getSession(id: string): Promise<AnalysisSession | null> {
+  const store = await getSessionsStore("readonly");
+  const session = (await requestToPromise(store.get(id))) as AnalysisSession | undefined;
+  return session ? normalizeSession(session) : null;
+}
+
+/**
+ * Обновляет поля сессии (название, переписку и т.д.)
+ * @returns обновленная сессия или null, если сессия уже удалена
+ */
+export async function updateSession(
+  id: string,
+  patch: Partial<Pick<AnalysisSession, "label" | "roomId" | "analysis" | "threads">>
+): Promise<AnalysisSession | null> {
+  const store = await getSessionsStore("readwrite");
+  const existing = (await requestToPromise(store.get(id))) as AnalysisSession | undefined;
+  if (!existing) return null;
+
+  const updated: AnalysisSession = { ...normalizeSession(existing), ...patch, updatedAt: new Date() };
+  await requestToPromise(store.put(updated));
+  return updated;
+}
+
+/**
+ * Добавляет пройденную сессию режима фокуса к анализу
+ */
+export async function addFocusSession(id: string, record: FocusSessionRecord): Promise<void> {
+  const store = await getSessionsStore("readwrite");
+  const existing = (await requestToPromise(store.get(id))) as AnalysisSession | undefined;
+  if (!existing) return;
+
+  const session = normalizeSession(existing);
+  const focusSessions = [...(session.focusSessions ?? []), record];
+  await requestToPromise(store.put({ ...session, focusSessions, updatedAt: new Date() }));
+}
+
+/**
+ * Удаляет сессию
+ */
+export async function deleteSession(id: string): Promise<void> {
+  const store = await getSessionsStore("readwrite");
+  await requestToPromise(store.delete(id));
+}
+
+/**
+ * Возвращает анализы комнаты в хронологическом порядке
+ */
+export async function listRoomSessions(roomId: string): Promise<AnalysisSession[]> {
+  const store = await getSessionsStore("readonly");
+  const sessions = (await requestToPromise(
+    store.index("roomId").getAll(roomId)
+  )) as AnalysisSession[];
+  return sessions.map(normalizeSession).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// ============================================================================
+// КОМНАТЫ
+// ============================================================================
+
+/**
+ * Возвращает все комнаты, отсортированные по названию
+ */
+export async function listRooms(): Promise<Room[]> {
+  const store = await getRoomsStore("readonly");
+  const rooms = (await requestToPromise(store.getAll())) as Room[];
+  return rooms.sort((a, b) => a.name.localeCompare(b.name, "ru"));
+}
+
+/**
+ * Создает новую комнату
+ */
+export async function createRoom(name: string): Promise<Room> {
+  const room: Room = { id: crypto.randomUUID(), name, createdAt: new Date() };
+  const store = await getRoomsStore("readwrite");
+  await requestToPromise(store.put(room));
+  return room;
+}
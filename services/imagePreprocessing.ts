@@ -0,0 +1,167 @@
+import { UploadedImage } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Настройки подготовки фото перед отправкой модели */
+export interface ImagePreprocessingOptions {
+  /** Максимальная длина большей стороны в пикселях */
+  maxDimension: number;
+  /** Формат, в который перекодируется фото */
+  outputType: "image/jpeg" | "image/webp";
+  /** Качество сжатия от 0 до 1 */
+  quality: number;
+  /** Максимальный размер исходного файла в байтах */
+  maxInputBytes: number;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Форматы, которые принимает загрузка */
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+export const DEFAULT_PREPROCESSING_OPTIONS: ImagePreprocessingOptions = {
+  maxDimension: 1600,
+  outputType: "image/jpeg",
+  quality: 0.85,
+  maxInputBytes: 25 * 1024 * 1024,
+};
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Декодирует файл с учетом EXIF-ориентации.
+ * createImageBitmap с imageOrientation "from-image" поворачивает кадр так,
+ * как его снимала камера; старые браузеры делают то же для <img>.
+ */
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Падаем на <img> ниже (например, Safari без поддержки опций)
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Перекодирует canvas в Blob нужного формата
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Не удалось обработать изображение."))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Читает Blob как base64 без data URL префикса
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(new Error("Ошибка чтения файла. Попробуйте другое изображение."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Собирает data URL для отображения изображения
+ */
+export const toDataUrl = (image: UploadedImage): string =>
+  `data:${image.mimeType};base64,${image.data}`;
+
+// ============================================================================
+// ПРОВЕРКА И ПОДГОТОВКА
+// ============================================================================
+
+/**
+ * Проверяет файл до обработки
+ * @returns текст ошибки для пользователя или null
+ */
+export function validateImageFile(
+  file: File,
+  options: ImagePreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return "Пожалуйста, загрузите файл изображения (JPEG, PNG, WebP или GIF)";
+  }
+  if (file.size > options.maxInputBytes) {
+    const limitMb = Math.round(options.maxInputBytes / (1024 * 1024));
+    return `Файл слишком большой. Максимальный размер — ${limitMb} МБ.`;
+  }
+  return null;
+}
+
+/**
+ * Готовит фото к отправке:
+ * - применяет EXIF-ориентацию
+ * - уменьшает до maxDimension по большей стороне
+ * - перекодирует в JPEG/WebP с заданным качеством
+ * - удаляет EXIF/GPS метаданные (canvas их не переносит)
+ */
+export async function preprocessImage(
+  file: File,
+  options: ImagePreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): Promise<UploadedImage> {
+  const validationError = validateImageFile(file, options);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decodeImage(file);
+  } catch {
+    throw new Error("Не удалось прочитать изображение. Возможно, файл поврежден.");
+  }
+
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, options.maxDimension / Math.max(width, height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Браузер не поддерживает обработку изображений.");
+  }
+
+  // Белый фон вместо черного для прозрачных PNG/GIF при перекодировании в JPEG
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  if (source instanceof ImageBitmap) {
+    source.close();
+  }
+
+  // Браузер без поддержки WebP вернет PNG — тогда перекодируем в JPEG
+  let blob = await canvasToBlob(canvas, options.outputType, options.quality);
+  if (blob.type !== options.outputType) {
+    blob = await canvasToBlob(canvas, "image/jpeg", options.quality);
+  }
+
+  return { data: await blobToBase64(blob), mimeType: blob.type };
+}
@@ -0,0 +1,124 @@
+import { Marked, Token, Tokens } from "marked";
+import DOMPurify from "dompurify";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Якорь ссылки на пункт плана: #action-item-3 */
+export const ACTION_ITEM_LINK_PREFIX = "#action-item-";
+
+/** Теги, которые остаются после очистки HTML */
+const ALLOWED_TAGS = [
+  "p", "br", "hr", "strong", "em", "del", "code", "pre", "blockquote",
+  "ul", "ol", "li", "h1", "h2", "h3", "h4", "a",
+  "table", "thead", "tbody", "tr", "th", "td",
+];
+
+const ALLOWED_ATTR = ["href", "title", "target", "rel"];
+
+/**
+ * Упоминание пункта плана в ответе ассистента: «пункт 3», «пункта №2», «задачу 4».
+ * \b в JS не работает с кириллицей, поэтому начало слова проверяется через \p{L}
+ */
+const ITEM_REFERENCE_PATTERN = /(?<!\p{L})((?:пункт|задач)\p{L}{0,3}\s*№?\s*)(\d{1,3})(?!\d)/giu;
+
+const markdown = new Marked({ gfm: true, breaks: true, async: false });
+
+// Внешние ссылки открываются в новой вкладке; ссылки на пункты плана остаются внутри страницы
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName !== "A") return;
+  const href = node.getAttribute("href") ?? "";
+  if (!href.startsWith(ACTION_ITEM_LINK_PREFIX)) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+const createTextToken = (text: string): Tokens.Text => ({ type: "text", raw: text, text });
+
+/**
+ * Делит текстовый токен на текст и ссылки #action-item-N на упомянутые пункты плана.
+ * Ссылками становятся только номера, которые есть в плане
+ */
+function splitItemReferences(token: Tokens.Text, itemCount: number): Token[] {
+  const parts: Token[] = [];
+  let position = 0;
+
+  for (const match of token.text.matchAll(ITEM_REFERENCE_PATTERN)) {
+    const number = Number(match[2]);
+    if (number < 1 || number > itemCount) continue;
+
+    if (match.index > position) parts.push(createTextToken(token.text.slice(position, match.index)));
+    parts.push({
+      type: "link",
+      raw: match[0],
+      href: `${ACTION_ITEM_LINK_PREFIX}${number}`,
+      text: match[0],
+      tokens: [createTextToken(match[0])],
+    });
+    position = match.index + match[0].length;
+  }
+
+  if (position === 0) return [token];
+  if (position < token.text.length) parts.push(createTextToken(token.text.slice(position)));
+  return parts;
+}
+
+/**
+ * Заменяет простые текстовые токены списка на текст со ссылками на пункты плана
+ */
+const linkTextTokens = (tokens: Token[], itemCount: number): Token[] =>
+  tokens.flatMap((token) =>
+    token.type === "text" && !token.tokens && !token.escaped
+      ? splitItemReferences(token as Tokens.Text, itemCount)
+      : [token]
+  );
+
+/**
+ * Обработчик walkTokens: ссылки на пункты плана появляются только в обычном тексте —
+ * код, готовые ссылки и HTML остаются как есть
+ */
+const createItemReferenceLinker =
+  (itemCount: number) =>
+  (token: Token): void => {
+    if (token.type === "link" || token.type === "image") return;
+
+    if (token.type === "table") {
+      for (const cell of [...token.header, ...token.rows.flat()]) {
+        cell.tokens = linkTextTokens(cell.tokens, itemCount);
+      }
+    } else if ("tokens" in token && token.tokens) {
+      token.tokens = linkTextTokens(token.tokens, itemCount);
+    }
+  };
+
+// ============================================================================
+// ОСНОВНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Преобразует ответ ассистента из Markdown в безопасный HTML
+ * @param text - текст ответа (может быть неполным во время генерации)
+ * @param itemCount - количество пунктов плана для ссылок на них
+ */
+export function renderChatMarkdown(text: string, itemCount = 0): string {
+  const html = markdown.parse(text, {
+    walkTokens: itemCount > 0 ? createItemReferenceLinker(itemCount) : null,
+  }) as string;
+  return DOMPurify.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR });
+}
+
+/**
+ * Номер пункта плана из ссылки #action-item-N
+ * @returns номер или null, если это другая ссылка
+ */
+export function parseActionItemLink(href: string): number | null {
+  if (!href.startsWith(ACTION_ITEM_LINK_PREFIX)) return null;
+  const number = Number(href.slice(ACTION_ITEM_LINK_PREFIX.length));
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
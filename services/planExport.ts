@@ -0,0 +1,419 @@
+import { ActionItem, RoomAnalysis, UploadedImage } from "../types";
+import { getActionItemMinutes, getActionItemNumbers, getCompletionPercent } from "./actionPlan";
+import { toDataUrl } from "./imagePreprocessing";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Настройки расписания для календаря */
+export interface CalendarScheduleOptions {
+  /** Первый день, с которого можно ставить задачи */
+  startDate: Date;
+  /** Дни недели для уборки (0 — воскресенье, как в Date.getDay) */
+  weekdays: number[];
+  /** Время начала уборки в формате ЧЧ:ММ */
+  startTime: string;
+  /** Сколько минут в день уделять уборке */
+  minutesPerDay: number;
+}
+
+/** Задача, поставленная в расписание */
+export interface ScheduledActionItem {
+  item: ActionItem;
+  /** Номер задачи в плане */
+  number: number;
+  start: Date;
+  end: Date;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Порядок групп совпадает с дашбордом */
+const CATEGORY_ORDER: ActionItem["category"][] = ["Discard", "Organize", "Buy"];
+
+const CATEGORY_TITLES: Record<ActionItem["category"], string> = {
+  Discard: "Убрать / Выбросить",
+  Organize: "Организовать",
+  Buy: "Купить / Добавить",
+};
+
+const DIFFICULTY_LABELS: Record<ActionItem["difficulty"], string> = {
+  Easy: "Легко",
+  Medium: "Средне",
+  Hard: "Сложно",
+};
+
+/** Максимальная длина строки iCalendar в байтах (RFC 5545, 3.1) */
+const ICS_LINE_LIMIT = 75;
+
+/** Сколько дней вперед ищется подходящий день недели, прежде чем расписание сдается */
+const MAX_SCHEDULE_DAYS = 366;
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Задачи по группам в порядке плана вместе с их номерами
+ */
+function groupActionItems(items: ActionItem[]) {
+  const numbers = getActionItemNumbers(items);
+  return CATEGORY_ORDER.map((category) => ({
+    category,
+    title: CATEGORY_TITLES[category],
+    items: items
+      .filter((item) => item.category === category)
+      .map((item) => ({ item, number: numbers.get(item.id)! })),
+  })).filter((group) => group.items.length > 0);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Дата в формате ГГГГ-ММ-ДД по местному времени
+ */
+export function formatDateInput(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Имя файла экспорта: tidyai-спальня-2025-01-31.md
+ */
+export function getExportFileName(analysis: RoomAnalysis, extension: string): string {
+  const slug = analysis.roomType
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return `tidyai-${slug || "plan"}-${formatDateInput(new Date())}.${extension}`;
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+/**
+ * План в виде чек-листа Markdown; без разметки он так же читается как обычный текст
+ */
+export function buildPlanMarkdown(analysis: RoomAnalysis): string {
+  const completionPercent = getCompletionPercent(analysis.actionItems);
+  const lines = [
+    `# План уборки: ${analysis.roomType}`,
+    "",
+    analysis.summary,
+    "",
+    `Захламленность: ${analysis.clutterLevel}% · Выполнено: ${completionPercent}%`,
+  ];
+
+  for (const group of groupActionItems(analysis.actionItems)) {
+    lines.push("", `## ${group.title}`, "");
+    for (const { item, number } of group.items) {
+      const mark = item.completed ? "x" : " ";
+      const meta = `${DIFFICULTY_LABELS[item.difficulty]}, ~${getActionItemMinutes(item)} мин`;
+      lines.push(`- [${mark}] ${number}. ${item.title} (${meta})`);
+      if (item.description) {
+        lines.push(`  ${item.description}`);
+      }
+    }
+  }
+
+  if (analysis.actionItems.length === 0) {
+    lines.push("", "Идеальный порядок! Действий не требуется.");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// ============================================================================
+// КАЛЕНДАРЬ (ICS)
+// ============================================================================
+
+/**
+ * Раскладывает невыполненные задачи по выбранным дням в порядке плана.
+ * В день ставится столько задач, сколько помещается в minutesPerDay, но не меньше одной
+ */
+export function scheduleActionItems(
+  items: ActionItem[],
+  options: CalendarScheduleOptions
+): ScheduledActionItem[] {
+  const numbers = getActionItemNumbers(items);
+  const pending = items.filter((item) => !item.completed);
+  if (pending.length === 0 || options.weekdays.length === 0) return [];
+
+  const [hours, minutes] = options.startTime.split(":").map(Number);
+  const day = new Date(options.startDate);
+  day.setHours(0, 0, 0, 0);
+
+  const result: ScheduledActionItem[] = [];
+  let index = 0;
+
+  for (let offset = 0; offset < MAX_SCHEDULE_DAYS && index < pending.length; offset++) {
+    if (offset > 0) day.setDate(day.getDate() + 1);
+    if (!options.weekdays.includes(day.getDay())) continue;
+
+    const start = new Date(day);
+    start.setHours(hours || 0, minutes || 0);
+    let usedMinutes = 0;
+
+    while (index < pending.length) {
+      const item = pending[index];
+      const duration = getActionItemMinutes(item);
+      if (usedMinutes > 0 && usedMinutes + duration > options.minutesPerDay) break;
+
+      const end = new Date(start.getTime() + duration * 60_000);
+      result.push({ item, number: numbers.get(item.id)!, start: new Date(start), end });
+      start.setTime(end.getTime());
+      usedMinutes += duration;
+      index++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Экранирование текста по RFC 5545: \ ; , и переводы строк
+ */
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Переносит длинную строку: не больше 75 байт, продолжение начинается с пробела.
+ * Разрыв не попадает внутрь многобайтового символа UTF-8
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // У строк продолжения один байт занимает начальный пробел
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Местное время без часового пояса (floating time): календарь покажет то же время суток
+ */
+function formatIcsLocalTime(date: Date): string {
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`
+  );
+}
+
+/**
+ * Время в UTC для DTSTAMP
+ */
+function formatIcsUtcTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Календарь iCalendar с невыполненными задачами, разложенными по выбранным дням.
+ * UID события — id плана и задачи: повторный импорт того же плана обновляет события,
+ * а не дублирует их, и не затирает события других планов с теми же id задач
+ * @param planId - постоянный id плана (id сохраненного анализа или общего плана)
+ */
+export function buildPlanCalendar(
+  analysis: RoomAnalysis,
+  planId: string,
+  options: CalendarScheduleOptions
+): string {
+  const stamp = formatIcsUtcTime(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TidyAI//План уборки//RU",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(`TidyAI: ${analysis.roomType}`)}`,
+  ];
+
+  for (const { item, number, start, end } of scheduleActionItems(analysis.actionItems, options)) {
+    const details = [
+      item.description,
+      `${CATEGORY_TITLES[item.category]} · ${DIFFICULTY_LABELS[item.difficulty]}`,
+    ].filter(Boolean);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${planId}-${item.id}@tidyai`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsLocalTime(start)}`,
+      `DTEND:${formatIcsLocalTime(end)}`,
+      `SUMMARY:${escapeIcsText(`${number}. ${item.title}`)}`,
+      `DESCRIPTION:${escapeIcsText(details.join("\n\n"))}`,
+      `CATEGORIES:${escapeIcsText(CATEGORY_TITLES[item.category])}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+// ============================================================================
+// ПЕЧАТЬ (PDF)
+// ============================================================================
+
+/**
+ * Экранирование текста для вставки в HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const PRINT_STYLES = `
+  @page { margin: 15mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Inter, Arial, sans-serif; color: #1e293b; margin: 0; font-size: 12pt; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; }
+  h2 { font-size: 14pt; margin: 16pt 0 6pt; padding-bottom: 4pt; border-bottom: 1px solid #e2e8f0; }
+  .date { color: #64748b; font-size: 10pt; margin-bottom: 12pt; }
+  .photos { display: flex; flex-wrap: wrap; gap: 6pt; margin-bottom: 12pt; }
+  .photos img { max-height: 60mm; max-width: 100%; border-radius: 6pt; object-fit: cover; }
+  .photos.multiple img { max-height: 40mm; max-width: 48%; }
+  .summary { line-height: 1.5; margin: 0 0 10pt; }
+  .score { display: flex; gap: 24pt; margin-bottom: 6pt; font-weight: 600; }
+  .bar { height: 6pt; background: #e2e8f0; border-radius: 3pt; overflow: hidden; margin-top: 3pt; width: 60mm; }
+  .bar > div { height: 100%; background: #10b981; }
+  .bar.clutter > div { background: #f59e0b; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { display: flex; gap: 8pt; padding: 5pt 0; break-inside: avoid; }
+  .box { flex: none; width: 11pt; height: 11pt; border: 1.5px solid #64748b; border-radius: 2pt; margin-top: 2pt; text-align: center; font-size: 9pt; line-height: 9pt; }
+  .done .title { text-decoration: line-through; color: #94a3b8; }
+  .title { font-weight: 600; }
+  .meta { color: #64748b; font-size: 9pt; font-weight: 400; }
+  .description { color: #475569; font-size: 10pt; margin-top: 2pt; }
+`;
+
+/**
+ * Документ для печати: фото, резюме, уровень захламленности и задачи по группам.
+ * Печать в браузере позволяет сохранить его как PDF
+ */
+export function buildPrintableHtml(analysis: RoomAnalysis, images: UploadedImage[]): string {
+  const photos = images
+    .map((image, index) => `<img src="${toDataUrl(image)}" alt="Фото ${index + 1}" />`)
+    .join("");
+
+  const groups = groupActionItems(analysis.actionItems)
+    .map((group) => {
+      const items = group.items
+        .map(({ item, number }) => {
+          const photo =
+            images.length > 1 && item.photoIndex !== undefined ? ` · фото ${item.photoIndex + 1}` : "";
+          const description = item.description
+            ? `<div class="description">${escapeHtml(item.description)}</div>`
+            : "";
+          return `
+            <li class="${item.completed ? "done" : ""}">
+              <div class="box">${item.completed ? "✓" : ""}</div>
+              <div>
+                <div class="title">${number}. ${escapeHtml(item.title)}
+                  <span class="meta">
+                    · ${DIFFICULTY_LABELS[item.difficulty]} · ~${getActionItemMinutes(item)} мин${photo}
+                  </span>
+                </div>
+                ${description}
+              </div>
+            </li>`;
+        })
+        .join("");
+      return `<h2>${group.title}</h2><ul>${items}</ul>`;
+    })
+    .join("");
+
+  const completionPercent = getCompletionPercent(analysis.actionItems);
+  const title = `План уборки: ${escapeHtml(analysis.roomType)}`;
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+    <style>${PRINT_STYLES}</style>
+  </head>
+  <body>
+    <h1>${title}</h1>
+    <div class="date">TidyAI · ${new Date().toLocaleDateString("ru-RU")}</div>
+    <div class="photos${images.length > 1 ? " multiple" : ""}">${photos}</div>
+    <p class="summary">${escapeHtml(analysis.summary)}</p>
+    <div class="score">
+      <div>Захламленность: ${analysis.clutterLevel}%
+        <div class="bar clutter"><div style="width: ${analysis.clutterLevel}%"></div></div>
+      </div>
+      <div>Выполнено: ${completionPercent}%
+        <div class="bar"><div style="width: ${completionPercent}%"></div></div>
+      </div>
+    </div>
+    ${groups || "<p>Идеальный порядок! Действий не требуется.</p>"}
+  </body>
+</html>`;
+}
+
+// ============================================================================
+// ВЫГРУЗКА
+// ============================================================================
+
+/**
+ * Сохраняет текст в файл через временную ссылку
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Скачивание начинается асинхронно: ссылку освобождаем с запасом
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Открывает диалог печати для HTML-документа в скрытом iframe, не уходя со страницы
+ */
+export function printHtml(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.setAttribute("aria-hidden", "true");
+
+  // onload срабатывает после загрузки фото, поэтому они попадают в печать
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.addEventListener("afterprint", () => frame.remove());
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,276 @@
+import { ActionItem, RoomAnalysis, SharedPlan, UploadedImage } from "../types";
+import { validateRoomAnalysis } from "./analysisValidator";
+import { createThumbnail } from "./historyStore";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Перевод сырого плана из одной версии формата в следующую */
+type PlanMigration = (plan: Record<string, unknown>) => Record<string, unknown>;
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Текущая версия формата общего плана */
+export const SHARE_FORMAT_VERSION = 1;
+
+/** Расширение файла общего плана (без точки, как в getExportFileName) */
+export const SHARED_PLAN_FILE_EXTENSION = "tidy.json";
+
+/** Фрагмент ссылки с планом: #plan=<сжатый JSON в base64url> */
+const SHARE_HASH_PREFIX = "#plan=";
+
+/** Предел размера распакованного плана: ссылка с «zip-бомбой» не займет всю память */
+const MAX_SHARED_PLAN_BYTES = 1024 * 1024;
+
+/** Миниатюра для ссылки меньше, чем в истории: она целиком попадает в URL */
+const SHARED_THUMBNAIL_SIZE = 200;
+
+/** Миниатюра принимается только как встроенная картинка, внешние адреса не загружаются */
+const THUMBNAIL_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+/**
+ * Миграции формата: ключ — версия, из которой переводится план в следующую.
+ * При изменении формата повышается SHARE_FORMAT_VERSION и добавляется миграция,
+ * поэтому ссылки, отправленные раньше, продолжают открываться
+ */
+const FORMAT_MIGRATIONS: Record<number, PlanMigration> = {};
+
+// ============================================================================
+// ОШИБКИ
+// ============================================================================
+
+/**
+ * Ссылка или файл не содержат пригодного плана
+ */
+export class SharedPlanError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SharedPlanError";
+  }
+}
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Сжатие текста (deflate без заголовков — так ссылка короче)
+ */
+async function compress(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Распаковка по частям: чтение прерывается, как только данные превысили MAX_SHARED_PLAN_BYTES
+ * @throws SharedPlanError, если распакованный план слишком большой
+ */
+async function decompress(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let size = 0;
+  let finished = false;
+
+  while (!finished) {
+    const { value, done } = await reader.read();
+    finished = done;
+    if (!value) continue;
+
+    size += value.byteLength;
+    if (size > MAX_SHARED_PLAN_BYTES) {
+      await reader.cancel();
+      throw new SharedPlanError("План в ссылке слишком большой.");
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+/**
+ * base64url без выравнивания: символы безопасны для URL и не экранируются мессенджерами
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Приводит план старой версии к текущей
+ * @throws SharedPlanError, если версия неизвестна или новее поддерживаемой
+ */
+function migrateSharedPlan(raw: Record<string, unknown>): Record<string, unknown> {
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new SharedPlanError("В плане нет корректной версии формата.");
+  }
+  if (version > SHARE_FORMAT_VERSION) {
+    throw new SharedPlanError("План создан более новой версией TidyAI. Обновите страницу.");
+  }
+
+  let plan = raw;
+  for (let current = version; current < SHARE_FORMAT_VERSION; current++) {
+    plan = { ...FORMAT_MIGRATIONS[current](plan), version: current + 1 };
+  }
+  return plan;
+}
+
+/**
+ * Проверяет план из ссылки или файла: данные пришли извне, поэтому анализ проходит
+ * ту же проверку, что и ответ модели, а отметки выполнения переносятся по id задач
+ * @throws SharedPlanError, если план непригоден
+ */
+function validateSharedPlan(raw: unknown): SharedPlan {
+  if (!isRecord(raw)) {
+    throw new SharedPlanError("Файл не похож на план TidyAI.");
+  }
+
+  const plan = migrateSharedPlan(raw);
+  const { analysis } = validateRoomAnalysis(plan.analysis);
+  if (!analysis) {
+    throw new SharedPlanError("В плане нет анализа комнаты.");
+  }
+
+  const rawItems =
+    isRecord(plan.analysis) && Array.isArray(plan.analysis.actionItems)
+      ? plan.analysis.actionItems.filter(isRecord)
+      : [];
+  const completedIds = new Set(
+    rawItems.filter((item) => item.completed === true).map((item) => String(item.id))
+  );
+  const actionItems = analysis.actionItems.map((item) =>
+    completedIds.has(item.id) ? { ...item, completed: true } : item
+  );
+
+  const thumbnail =
+    typeof plan.thumbnail === "string" && THUMBNAIL_PATTERN.test(plan.thumbnail)
+      ? plan.thumbnail
+      : undefined;
+  const sharedAt =
+    typeof plan.sharedAt === "string" && !Number.isNaN(Date.parse(plan.sharedAt))
+      ? plan.sharedAt
+      : new Date().toISOString();
+
+  return {
+    version: SHARE_FORMAT_VERSION,
+    analysis: { ...analysis, actionItems },
+    thumbnail,
+    sharedAt,
+  };
+}
+
+// ============================================================================
+// СОЗДАНИЕ
+// ============================================================================
+
+/**
+ * Общий план из текущего анализа. Рамки и номера фото не передаются:
+ * у получателя нет исходных фото
+ * @param images - фото анализа; первое становится миниатюрой, если includeThumbnail
+ */
+export async function createSharedPlan(
+  analysis: RoomAnalysis,
+  images: UploadedImage[],
+  { includeThumbnail = false }: { includeThumbnail?: boolean } = {}
+): Promise<SharedPlan> {
+  const actionItems = analysis.actionItems.map(
+    ({ photoIndex: _photoIndex, boundingBox: _boundingBox, ...item }): ActionItem => item
+  );
+
+  return {
+    version: SHARE_FORMAT_VERSION,
+    analysis: { ...analysis, actionItems },
+    thumbnail:
+      includeThumbnail && images.length > 0
+        ? await createThumbnail(images[0], SHARED_THUMBNAIL_SIZE)
+        : undefined,
+    sharedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Содержимое файла .tidy.json
+ */
+export function serializeSharedPlan(plan: SharedPlan): string {
+  return JSON.stringify(plan, null, 2);
+}
+
+/**
+ * Ссылка на текущую страницу с планом во фрагменте: фрагмент не уходит на сервер
+ */
+export async function buildShareLink(plan: SharedPlan): Promise<string> {
+  const payload = toBase64Url(await compress(JSON.stringify(plan)));
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${SHARE_HASH_PREFIX}${payload}`;
+}
+
+// ============================================================================
+// ЧТЕНИЕ
+// ============================================================================
+
+/**
+ * Содержит ли фрагмент адреса общий план
+ */
+export function hasSharedPlanHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+/**
+ * План из фрагмента ссылки
+ * @throws SharedPlanError, если ссылка повреждена или обрезана
+ */
+export async function readSharedPlanFromHash(hash: string): Promise<SharedPlan> {
+  let json: string;
+  try {
+    json = await decompress(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch (error) {
+    if (error instanceof SharedPlanError) throw error;
+    throw new SharedPlanError("Ссылка на план повреждена или обрезана.", { cause: error });
+  }
+  return parseSharedPlan(json);
+}
+
+/**
+ * План из текста файла .tidy.json
+ * @throws SharedPlanError, если файл непригоден
+ */
+export function parseSharedPlan(text: string): SharedPlan {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new SharedPlanError("Файл плана поврежден: это не JSON.", { cause: error });
+  }
+  return validateSharedPlan(raw);
+}
+
+/**
+ * Миниатюра общего плана в виде фото (для печатной версии)
+ */
+export function getSharedPlanImages(plan: SharedPlan): UploadedImage[] {
+  const match = plan.thumbnail?.match(/^data:(image\/[a-z]+);base64,(.+)$/);
+  return match ? [{ mimeType: match[1], data: match[2] }] : [];
+}
+
+/**
+ * Убирает план из адреса страницы, не добавляя запись в историю браузера
+ */
+export function clearSharedPlanHash(): void {
+  if (!hasSharedPlanHash(window.location.hash)) return;
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", `${pathname}${search}`);
+}
@@ -0,0 +1,345 @@
+import { ActionItem, ChatToolCall, ChatToolDeclaration, ChatToolResult } from "../types";
+import {
+  ActionItemDraft,
+  addActionItem,
+  createActionItemId,
+  removeActionItem,
+  updateActionItem,
+} from "./actionPlan";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Результат применения вызовов инструментов к плану */
+export interface PlanToolOutcome {
+  items: ActionItem[];
+  /** Ответы для модели — по одному на каждый вызов */
+  results: ChatToolResult[];
+}
+
+type Difficulty = ActionItem["difficulty"];
+type Category = ActionItem["category"];
+
+/** Выполняет один инструмент и возвращает новый план и описание сделанного */
+type PlanToolExecutor = (
+  items: ActionItem[],
+  args: Record<string, unknown>,
+  resolveId: (number: unknown) => string
+) => { items: ActionItem[]; summary: string };
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+const CATEGORIES: Category[] = ["Discard", "Organize", "Buy"];
+
+/** Схема номера пункта: номера те же, что видит пользователь */
+const ITEM_NUMBER_SCHEMA = {
+  type: "integer",
+  minimum: 1,
+  description: "Номер пункта плана (поле number в контексте)",
+};
+
+/** Схема оценки времени на задачу */
+const MINUTES_SCHEMA = {
+  type: "integer",
+  minimum: 1,
+  description: "Сколько минут займет задача",
+};
+
+/** Инструменты, которыми ассистент меняет план действий */
+export const PLAN_TOOLS: ChatToolDeclaration[] = [
+  {
+    name: "add_action_item",
+    description: "Добавить новую задачу в план",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Короткий заголовок" },
+        description: { type: "string", description: "Описание действия" },
+        category: { type: "string", enum: CATEGORIES },
+        difficulty: { type: "string", enum: DIFFICULTIES },
+        estimatedMinutes: MINUTES_SCHEMA,
+      },
+      required: ["title", "category"],
+    },
+  },
+  {
+    name: "remove_action_items",
+    description: "Удалить задачи из плана",
+    parameters: {
+      type: "object",
+      properties: {
+        numbers: { type: "array", items: ITEM_NUMBER_SCHEMA, minItems: 1 },
+      },
+      required: ["numbers"],
+    },
+  },
+  {
+    name: "split_action_item",
+    description: "Разбить задачу на несколько последовательных шагов (заменяет исходную задачу)",
+    parameters: {
+      type: "object",
+      properties: {
+        number: ITEM_NUMBER_SCHEMA,
+        steps: {
+          type: "array",
+          minItems: 2,
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              description: { type: "string" },
+              difficulty: { type: "string", enum: DIFFICULTIES },
+              estimatedMinutes: MINUTES_SCHEMA,
+            },
+            required: ["title"],
+          },
+        },
+      },
+      required: ["number", "steps"],
+    },
+  },
+  {
+    name: "change_category",
+    description: "Перенести задачи в другую категорию",
+    parameters: {
+      type: "object",
+      properties: {
+        numbers: { type: "array", items: ITEM_NUMBER_SCHEMA, minItems: 1 },
+        category: { type: "string", enum: CATEGORIES },
+      },
+      required: ["numbers", "category"],
+    },
+  },
+  {
+    name: "change_priority",
+    description:
+      "Изменить приоритет задачи: сложность и/или место в своей категории (first — сделать первой)",
+    parameters: {
+      type: "object",
+      properties: {
+        number: ITEM_NUMBER_SCHEMA,
+        difficulty: { type: "string", enum: DIFFICULTIES },
+        position: { type: "string", enum: ["first", "last"] },
+      },
+      required: ["number"],
+    },
+  },
+];
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Читает обязательную непустую строку из аргументов
+ */
+function readString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Не указано поле ${key}`);
+  }
+  return value.trim();
+}
+
+/**
+ * Читает значение перечисления; undefined, если поле не передано
+ */
+function readEnum<T extends string>(
+  args: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Недопустимое значение ${key}: ${String(value)}`);
+  }
+  return value as T;
+}
+
+/**
+ * Читает оценку времени в минутах; undefined, если поле не передано
+ */
+function readMinutes(args: Record<string, unknown>, key: string): number | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 1) {
+    throw new Error(`Недопустимое значение ${key}: ${String(value)}`);
+  }
+  return Math.round(value);
+}
+
+/**
+ * Читает непустой список номеров пунктов
+ */
+function readNumbers(args: Record<string, unknown>, key: string): unknown[] {
+  const value = args[key];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Не указаны номера пунктов (${key})`);
+  }
+  return value;
+}
+
+/**
+ * Переносит задачу в начало или конец ее категории
+ */
+function moveWithinCategory(
+  items: ActionItem[],
+  id: string,
+  position: "first" | "last"
+): ActionItem[] {
+  const item = items.find((i) => i.id === id);
+  if (!item) return items;
+
+  const rest = items.filter((i) => i.id !== id);
+  const categories = rest.map((i) => i.category);
+  const anchor =
+    position === "first"
+      ? categories.indexOf(item.category)
+      : categories.lastIndexOf(item.category);
+
+  // Других задач этой категории нет — порядок не меняется
+  if (anchor === -1) return items;
+
+  const insertAt = position === "first" ? anchor : anchor + 1;
+  return [...rest.slice(0, insertAt), item, ...rest.slice(insertAt)];
+}
+
+const quote = (item: ActionItem | undefined) => (item ? `«${item.title}»` : "");
+
+// ============================================================================
+// ИНСТРУМЕНТЫ
+// ============================================================================
+
+const EXECUTORS: Record<string, PlanToolExecutor> = {
+  add_action_item: (items, args) => {
+    const estimatedMinutes = readMinutes(args, "estimatedMinutes");
+    const draft: ActionItemDraft = {
+      title: readString(args, "title"),
+      description: typeof args.description === "string" ? args.description.trim() : "",
+      category: readEnum(args, "category", CATEGORIES) ?? "Organize",
+      difficulty: readEnum(args, "difficulty", DIFFICULTIES) ?? "Medium",
+      ...(estimatedMinutes !== undefined && { estimatedMinutes }),
+    };
+    return { items: addActionItem(items, draft), summary: `Добавлена задача «${draft.title}»` };
+  },
+
+  remove_action_items: (items, args, resolveId) => {
+    const ids = readNumbers(args, "numbers").map(resolveId);
+    const titles = ids.map((id) => quote(items.find((item) => item.id === id)));
+    return {
+      items: ids.reduce(removeActionItem, items),
+      summary: `Удалено: ${titles.join(", ")}`,
+    };
+  },
+
+  split_action_item: (items, args, resolveId) => {
+    const id = resolveId(args.number);
+    const index = items.findIndex((item) => item.id === id);
+    const original = items[index];
+
+    if (!Array.isArray(args.steps) || args.steps.length < 2) {
+      throw new Error("Для разбиения нужно минимум два шага");
+    }
+
+    // Шаги наследуют категорию, фото и рамку исходной задачи
+    const { boundingBox, photoIndex, isCustom } = original;
+    const steps: ActionItem[] = [];
+    for (const step of args.steps) {
+      const stepArgs: Record<string, unknown> = typeof step === "object" && step !== null ? step : {};
+      const estimatedMinutes = readMinutes(stepArgs, "estimatedMinutes");
+      steps.push({
+        id: createActionItemId([...items, ...steps]),
+        title: readString(stepArgs, "title"),
+        description: typeof stepArgs.description === "string" ? stepArgs.description.trim() : "",
+        difficulty: readEnum(stepArgs, "difficulty", DIFFICULTIES) ?? original.difficulty,
+        category: original.category,
+        ...(estimatedMinutes !== undefined && { estimatedMinutes }),
+        ...(photoIndex !== undefined && { photoIndex }),
+        ...(boundingBox && { boundingBox }),
+        ...(isCustom && { isCustom }),
+      });
+    }
+
+    return {
+      items: [...items.slice(0, index), ...steps, ...items.slice(index + 1)],
+      summary: `Задача ${quote(original)} разбита на шаги (${steps.length})`,
+    };
+  },
+
+  change_category: (items, args, resolveId) => {
+    const category = readEnum(args, "category", CATEGORIES);
+    if (!category) throw new Error("Не указана категория");
+
+    const ids = readNumbers(args, "numbers").map(resolveId);
+    return {
+      items: ids.reduce((result, id) => updateActionItem(result, id, { category }), items),
+      summary: `Категория изменена на ${category}: ${ids
+        .map((id) => quote(items.find((item) => item.id === id)))
+        .join(", ")}`,
+    };
+  },
+
+  change_priority: (items, args, resolveId) => {
+    const id = resolveId(args.number);
+    const difficulty = readEnum(args, "difficulty", DIFFICULTIES);
+    const position = readEnum(args, "position", ["first", "last"] as const);
+    if (!difficulty && !position) {
+      throw new Error("Укажите difficulty или position");
+    }
+
+    let result = difficulty ? updateActionItem(items, id, { difficulty }) : items;
+    if (position) result = moveWithinCategory(result, id, position);
+
+    return {
+      items: result,
+      summary: `Приоритет задачи ${quote(items.find((item) => item.id === id))} изменен`,
+    };
+  },
+};
+
+// ============================================================================
+// ПРИМЕНЕНИЕ ВЫЗОВОВ
+// ============================================================================
+
+/**
+ * Применяет вызовы инструментов к плану по очереди.
+ * Номера пунктов во всех вызовах относятся к плану до изменений (его видела модель),
+ * поэтому «удали 2 и 5» удаляет именно эти пункты, а не сдвинутые.
+ * Ошибочный вызов не меняет план, а возвращает модели текст ошибки.
+ */
+export function applyPlanToolCalls(items: ActionItem[], calls: ChatToolCall[]): PlanToolOutcome {
+  const idByNumber = new Map(items.map((item, index) => [index + 1, item.id]));
+  let current = items;
+
+  const results = calls.map((call): ChatToolResult => {
+    const executor = EXECUTORS[call.name];
+    if (!executor) {
+      return { id: call.id, name: call.name, response: { error: "Неизвестный инструмент" } };
+    }
+
+    // Номер → id; пункт должен существовать и сейчас (не удален предыдущим вызовом)
+    const resolveId = (number: unknown): string => {
+      const id = idByNumber.get(Number(number));
+      if (!id || !current.some((item) => item.id === id)) {
+        throw new Error(`Пункта ${String(number)} нет в плане`);
+      }
+      return id;
+    };
+
+    try {
+      const outcome = executor(current, call.args ?? {}, resolveId);
+      current = outcome.items;
+      return { id: call.id, name: call.name, response: { ok: true, result: outcome.summary } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { id: call.id, name: call.name, response: { error: message } };
+    }
+  });
+
+  return { items: current, results };
+}
@@ -0,0 +1,108 @@
+import { ActionItem, RoomAnalysis } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Изменение одной доли использования пространства */
+export interface UtilizationChange {
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/** Сравнение двух анализов одной комнаты */
+export interface AnalysisComparison {
+  /** Изменение захламленности (отрицательное — стало чище) */
+  clutterDelta: number;
+  utilizationChanges: UtilizationChange[];
+  /** Задачи прошлого анализа, которых больше нет в новом, — вероятно, выполнены */
+  resolvedItems: ActionItem[];
+  /** Задачи прошлого анализа, которые модель снова предлагает */
+  remainingItems: ActionItem[];
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Порог сходства заголовков, при котором задачи считаются одной и той же */
+const SIMILARITY_THRESHOLD = 0.4;
+
+/** Длина «основы» слова: грубая замена стемминга для русских окончаний */
+const STEM_LENGTH = 4;
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Разбивает текст на набор основ слов (без коротких служебных слов)
+ */
+function toStems(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .split(/[^a-zа-я0-9]+/)
+    .filter((word) => word.length > 2);
+  return new Set(words.map((word) => word.slice(0, STEM_LENGTH)));
+}
+
+/**
+ * Коэффициент Жаккара для двух наборов основ
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  a.forEach((stem) => {
+    if (b.has(stem)) common++;
+  });
+  return common / (a.size + b.size - common);
+}
+
+// ============================================================================
+// СРАВНЕНИЕ
+// ============================================================================
+
+/**
+ * Сравнивает новый анализ комнаты с предыдущим
+ * @param previous - более ранний анализ
+ * @param current - новый анализ
+ */
+export function compareAnalyses(previous: RoomAnalysis, current: RoomAnalysis): AnalysisComparison {
+  // Доли сопоставляем по названию без учета регистра
+  const previousShares = new Map(
+    previous.spaceUtilization.map((entry) => [entry.name.trim().toLowerCase(), entry])
+  );
+  const utilizationChanges: UtilizationChange[] = current.spaceUtilization.map((entry) => {
+    const before = previousShares.get(entry.name.trim().toLowerCase())?.value ?? 0;
+    return { name: entry.name, before, after: entry.value, delta: entry.value - before };
+  });
+
+  // Задача считается выполненной, если среди новых нет похожей по заголовку и категории
+  const currentItems = current.actionItems.map((item) => ({
+    category: item.category,
+    stems: toStems(item.title),
+  }));
+
+  const resolvedItems: ActionItem[] = [];
+  const remainingItems: ActionItem[] = [];
+
+  previous.actionItems.forEach((item) => {
+    const stems = toStems(item.title);
+    const stillPresent = currentItems.some(
+      (candidate) =>
+        candidate.category === item.category &&
+        similarity(stems, candidate.stems) >= SIMILARITY_THRESHOLD
+    );
+    (stillPresent ? remainingItems : resolvedItems).push(item);
+  });
+
+  return {
+    clutterDelta: current.clutterLevel - previous.clutterLevel,
+    utilizationChanges,
+    resolvedItems,
+    remainingItems,
+  };
+}
@@ -0,0 +1,231 @@
+import { ChatInstructionContext, RoomAnalysis } from "../types";
+import { getActionItemMinutes } from "./actionPlan";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Параметры сборки промпта анализа */
+export interface AnalysisPromptOptions {
+  /** Провайдер поддерживает responseSchema */
+  structured: boolean;
+  /** Количество фото одной комнаты в запросе */
+  photoCount: number;
+  /** Валюта цен покупок, код ISO 4217 */
+  currency: string;
+}
+
+// ============================================================================
+// ПРОМПТЫ
+// ============================================================================
+
+/**
+ * Версия промпта анализа: входит в ключ кэша анализов.
+ * Увеличивать при изменении промпта, схемы ответа или его проверки — старые результаты перестанут подходить
+ */
+export const ANALYSIS_PROMPT_VERSION = 3;
+
+/**
+ * Инструкции для анализа фото комнаты (общие для всех провайдеров).
+ * Форма ответа задается схемой (structured output) или ANALYSIS_JSON_FORMAT.
+ */
+export const ANALYSIS_PROMPT = `Ты профессиональный организатор пространства. Проанализируй фото комнаты и составь отчет.
+
+Важно:
+- difficulty может быть только: "Easy", "Medium", "Hard"
+- category может быть только: "Discard", "Organize", "Buy"
+- estimatedMinutes — реалистичная оценка в минутах, сколько займет задача у одного человека (целое число); для покупок — время на выбор и заказ
+- значения spaceUtilization (Мебель, Свободное место, Хлам) в сумме дают 100
+- если проблема видна в конкретном месте фото, добавь задаче boundingBox — рамку {x, y, width, height} в долях от 0 до 1 (начало — левый верхний угол фото); для общих задач и покупок рамку не указывай
+- Все тексты на русском языке, без markdown и пояснений на английском`;
+
+/**
+ * Описание формы JSON для провайдеров без structured output.
+ * Используется как запасной путь вместе с извлечением JSON регуляркой.
+ */
+export const ANALYSIS_JSON_FORMAT = `Верни ТОЛЬКО валидный JSON в следующем формате (без markdown, без \`\`\`):
+{
+  "roomType": "Тип комнаты (1-2 слова)",
+  "clutterLevel": число от 0 до 100,
+  "summary": "Краткое резюме состояния (1-2 предложения)",
+  "spaceUtilization": [
+    {"name": "Мебель", "value": число},
+    {"name": "Свободное место", "value": число},
+    {"name": "Хлам", "value": число}
+  ],
+  "actionItems": [
+    {
+      "id": "1",
+      "title": "Короткий заголовок",
+      "description": "Описание действия",
+      "difficulty": "Easy",
+      "category": "Discard",
+      "estimatedMinutes": 15,
+      "boundingBox": {"x": 0.1, "y": 0.4, "width": 0.3, "height": 0.25}
+    },
+    {
+      "id": "2",
+      "title": "Короткий заголовок покупки",
+      "description": "Зачем нужна вещь и куда ее поставить",
+      "difficulty": "Easy",
+      "category": "Buy",
+      "estimatedMinutes": 20,
+      "purchase": {
+        "itemType": "Тип вещи",
+        "quantity": 2,
+        "dimensions": "40×30×50 см",
+        "priceRange": {"min": число, "max": число}
+      }
+    }
+  ],
+  "aestheticSuggestions": ["Совет 1", "Совет 2"]
+}`;
+
+/**
+ * Дополнение промпта для анализа нескольких фото одной комнаты
+ */
+const buildMultiPhotoInstruction = (photoCount: number): string =>
+  `Тебе даны ${photoCount} фото одной и той же комнаты с разных ракурсов (Фото 0 … Фото ${photoCount - 1}).
+Составь ОДИН общий отчет по всей комнате, не дублируй задачи для одного и того же места.
+Для каждой задачи укажи поле "photoIndex" — номер фото, на котором лучше всего видна проблема.
+Рамку boundingBox задавай на этом же фото.`;
+
+/**
+ * Дополнение промпта: детали покупок для списка покупок в выбранной валюте
+ */
+const buildPurchaseInstruction = (currency: string): string =>
+  `Для каждой задачи категории "Buy" заполни поле "purchase":
+- itemType — тип вещи в общем виде, без брендов, моделей и названий магазинов (например, «Корзина для белья с крышкой»)
+- quantity — сколько штук нужно (целое число)
+- dimensions — примерные размеры, если они важны для выбора (например, «40×30×50 см»)
+- priceRange — примерная цена за одну штуку {min, max} в валюте ${currency}, только числа
+Для задач других категорий поле "purchase" не указывай.`;
+
+/**
+ * Собирает промпт анализа с учетом возможностей провайдера, числа фото и валюты
+ */
+export const buildAnalysisPrompt = ({
+  structured,
+  photoCount,
+  currency,
+}: AnalysisPromptOptions): string =>
+  [
+    ANALYSIS_PROMPT,
+    buildPurchaseInstruction(currency),
+    photoCount > 1 ? buildMultiPhotoInstruction(photoCount) : null,
+    structured ? null : ANALYSIS_JSON_FORMAT,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+/**
+ * Промпт для повторного запроса, когда ответ не удалось восстановить
+ * @param previousResponse - исходный ответ модели
+ * @param problems - описание найденных проблем
+ * @param options - параметры исходного промпта
+ */
+export const buildAnalysisRepairPrompt = (
+  previousResponse: string,
+  problems: string[],
+  options: AnalysisPromptOptions
+): string =>
+  `Твой предыдущий ответ на запрос анализа комнаты не является корректным JSON нужного формата.
+
+Проблемы:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Предыдущий ответ:
+${previousResponse.slice(0, 4000)}
+
+Исправь ответ.
+
+${buildAnalysisPrompt(options)}`;
+
+/** Системная инструкция для чат-ассистента */
+export const CHAT_SYSTEM_INSTRUCTION =
+  "Ты TidyAI - дружелюбный помощник по организации пространства. " +
+  "Отвечай кратко, по делу и только на русском языке. " +
+  "Если пользователь спрашивает о конкретных товарах, предлагай общие категории, а не бренды.";
+
+/** Системная инструкция для сжатия ранней части переписки */
+export const CHAT_SUMMARY_INSTRUCTION =
+  "Ты сжимаешь переписку пользователя с ассистентом по организации комнаты. " +
+  "Пиши только на русском языке, без вступлений и без обращения к пользователю.";
+
+/**
+ * Запрос краткого содержания переписки (отправляется после сжимаемых сообщений)
+ * @param previousSummary - содержание еще более ранней части, если оно уже было
+ */
+export const buildChatSummaryPrompt = (previousSummary?: string): string => `${
+  previousSummary
+    ? `Краткое содержание еще более ранней части беседы:\n${previousSummary}\n\nОбнови его с учетом сообщений выше.`
+    : "Составь краткое содержание сообщений выше."
+}
+Сохрани: вопросы и решения пользователя, договоренности по пунктам плана (с номерами), что было на приложенных фото, важные ответы ассистента.
+Не больше 10 пунктов списком.`;
+
+/** Правила изменения плана через инструменты */
+const CHAT_PLAN_EDITING_RULES = `- Если пользователь просит изменить план (добавить, удалить, разбить, перенести в другую категорию, поменять приоритет), сделай это инструментами, а не только текстом
+- Номера в вызовах инструментов — номера пунктов из текущего состояния
+- После изменения кратко подтверди, что сделано; пользователь может отменить изменение кнопкой
+- Не меняй план без явной просьбы пользователя`;
+
+/**
+ * Системная инструкция чата с контекстом анализа, который видит пользователь.
+ * Собирается заново для каждого запроса, чтобы модель знала актуальное состояние чек-листа.
+ * @param analysis - текущий анализ комнаты с отметками выполнения
+ * @param options.canEditPlan - ассистенту доступны инструменты изменения плана
+ */
+export const buildChatSystemInstruction = (
+  analysis: RoomAnalysis,
+  { canEditPlan = false }: { canEditPlan?: boolean } = {}
+): string => {
+  // Номер задачи — ее позиция в плане (как в интерфейсе); id и рамки модели не нужны
+  const context = {
+    roomType: analysis.roomType,
+    clutterLevel: analysis.clutterLevel,
+    summary: analysis.summary,
+    spaceUtilization: analysis.spaceUtilization,
+    actionItems: analysis.actionItems.map((item, index) => ({
+      number: index + 1,
+      title: item.title,
+      description: item.description,
+      category: item.category,
+      difficulty: item.difficulty,
+      estimatedMinutes: getActionItemMinutes(item),
+      ...(item.purchase && { purchase: item.purchase }),
+      completed: !!item.completed,
+      ...(item.photoIndex !== undefined && { photoIndex: item.photoIndex }),
+      ...(item.isCustom && { addedByUser: true }),
+    })),
+    aestheticSuggestions: analysis.aestheticSuggestions,
+  };
+
+  return `${CHAT_SYSTEM_INSTRUCTION}
+
+Пользователь видит на экране анализ комнаты «${analysis.roomType}» и план действий. Текущее состояние (JSON):
+${JSON.stringify(context)}
+
+Правила:
+- Опирайся на этот анализ и не противоречь ему; если считаешь, что в плане чего-то не хватает, так и скажи
+- Пункты плана пронумерованы (поле number), пользователь может ссылаться на них: «пункт 3», «№2»
+- Упоминая пункт, называй его номер и заголовок, например: «Пункт 3 — <заголовок>»
+- completed: true — пользователь уже отметил пункт выполненным, не предлагай его снова
+- category: Discard — убрать/выбросить, Organize — организовать, Buy — купить
+- purchase у покупок: тип вещи, количество, размеры и примерная цена за одну штуку (priceRange); советуя товары, называй типы вещей, а не бренды и магазины
+- Пользователь может приложить к сообщению дополнительное фото (например, крупный план ящика или полки). Это часть той же комнаты: свяжи увиденное с пунктами плана по номеру или скажи, что нужен новый пункт. Такие фото не входят в нумерацию исходных фото (photoIndex)${
+    canEditPlan ? `\n${CHAT_PLAN_EDITING_RULES}` : ""
+  }`;
+};
+
+/**
+ * Системная инструкция по контексту чата: одинаково собирается клиентом и сервером-прокси
+ */
+export const resolveChatSystemInstruction = ({
+  purpose,
+  analysis,
+  canEditPlan,
+}: ChatInstructionContext): string => {
+  if (purpose === "summary") return CHAT_SUMMARY_INSTRUCTION;
+  return analysis ? buildChatSystemInstruction(analysis, { canEditPlan }) : CHAT_SYSTEM_INSTRUCTION;
+};
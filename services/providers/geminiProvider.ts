@@ -0,0 +1,152 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import {
+  GeminiPart,
+  VisionAnalysisRequest,
+  VisionChatRequest,
+  VisionProvider,
+} from "../../types";
+import { ROOM_ANALYSIS_SCHEMA } from "../analysisSchema";
+import { SafetyBlockError } from "../errors";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  model: string;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Причины остановки генерации, означающие блокировку фильтрами */
+const SAFETY_FINISH_REASONS = new Set([
+  "SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Бросает SafetyBlockError, если запрос или ответ заблокирован фильтрами.
+ * SDK в этом случае не бросает исключение, а возвращает пустой ответ с причиной
+ */
+function assertNotBlocked(response: GenerateContentResponse): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.has(finishReason))) {
+    throw new SafetyBlockError(blockReason ?? finishReason);
+  }
+}
+
+// ============================================================================
+// ПРОВАЙДЕР
+// ============================================================================
+
+/**
+ * Провайдер Google Gemini.
+ * Клиент создается лениво — при первом запросе, а не при загрузке модуля.
+ */
+export function createGeminiProvider(config: GeminiProviderConfig): VisionProvider {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!client) {
+      client = new GoogleGenAI({ apiKey: config.apiKey });
+    }
+    return client;
+  };
+
+  return {
+    id: "gemini",
+    model: config.model,
+    supportsStructuredOutput: true,
+
+    getConfigurationError() {
+      return config.apiKey
+        ? null
+        : "API ключ не настроен. Создайте файл .env с VITE_API_KEY.";
+    },
+
+    async analyzeImage({ images, prompt, signal }: VisionAnalysisRequest) {
+      // Каждое фото подписываем номером, чтобы модель могла на него сослаться
+      const imageParts = images.flatMap((image, index) => [
+        { text: `Фото ${index}:` },
+        { inlineData: { mimeType: image.mimeType, data: image.data } },
+      ]);
+
+      const response = await getClient().models.generateContent({
+        model: config.model,
+        contents: [
+          {
+            role: "user",
+            parts: [...imageParts, { text: prompt }],
+          },
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: ROOM_ANALYSIS_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+
+      assertNotBlocked(response);
+      return response.text ?? "";
+    },
+
+    async *streamChat({ history, systemInstruction, tools, signal }: VisionChatRequest) {
+      // Преобразуем историю в формат API
+      const contents = history.map((msg) => ({
+        role: msg.role,
+        parts: msg.parts.map((part: GeminiPart) => {
+          if (part.text) return { text: part.text };
+          if (part.inlineData) return { inlineData: part.inlineData };
+          if (part.functionCall) return { functionCall: part.functionCall };
+          if (part.functionResponse) return { functionResponse: part.functionResponse };
+          return { text: "" };
+        }),
+      }));
+
+      const stream = await getClient().models.generateContentStream({
+        model: config.model,
+        contents,
+        config: {
+          systemInstruction,
+          abortSignal: signal,
+          tools: tools?.length
+            ? [
+                {
+                  functionDeclarations: tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters,
+                  })),
+                },
+              ]
+            : undefined,
+        },
+      });
+
+      // Разбираем части напрямую: геттер chunk.text предупреждает о вызовах функций в ответе
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+          if (part.thought) continue;
+          if (part.text) yield { type: "text", text: part.text };
+
+          const call = part.functionCall;
+          if (call?.name) {
+            yield { type: "tool_call", call: { id: call.id, name: call.name, args: call.args ?? {} } };
+          }
+        }
+      }
+    },
+  };
+}
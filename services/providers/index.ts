@@ -0,0 +1,126 @@
+import { AIProviderId, VisionProvider } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Настройки провайдера (в браузере — из VITE_*, на сервере-прокси — из process.env) */
+export interface VisionProviderSettings {
+  id: AIProviderId;
+  /** Модель; по умолчанию — модель провайдера из DEFAULT_MODELS */
+  model?: string;
+  apiKey?: string;
+  /** Адрес OpenAI-совместимого сервера или сервера-прокси */
+  baseUrl?: string;
+}
+
+// ============================================================================
+// КОНФИГУРАЦИЯ
+// ============================================================================
+
+/** Модели по умолчанию для каждого провайдера (переопределяются через VITE_AI_MODEL) */
+const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "llava",
+  mock: "mock-fixtures",
+  proxy: "proxy",
+};
+
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+export const PROVIDER_IDS = Object.keys(DEFAULT_MODELS) as AIProviderId[];
+
+// ============================================================================
+// ВЫБОР ПРОВАЙДЕРА
+// ============================================================================
+
+/**
+ * Определяет провайдер из VITE_AI_PROVIDER (по умолчанию — gemini)
+ */
+function resolveProviderId(): AIProviderId {
+  const raw = import.meta.env.VITE_AI_PROVIDER?.trim().toLowerCase();
+  if (!raw) return "gemini";
+
+  if (PROVIDER_IDS.includes(raw as AIProviderId)) {
+    return raw as AIProviderId;
+  }
+
+  console.error(`❌ Неизвестный VITE_AI_PROVIDER "${raw}". Используется gemini.`);
+  return "gemini";
+}
+
+/**
+ * Создает провайдер по настройкам
+ */
+export function createVisionProvider({
+  id,
+  model = DEFAULT_MODELS[id],
+  apiKey,
+  baseUrl,
+}: VisionProviderSettings): VisionProvider {
+  switch (id) {
+    case "mock":
+      return createMockProvider();
+    case "proxy":
+      return createProxyProvider({ baseUrl: baseUrl ?? "" });
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: baseUrl || DEFAULT_OPENAI_BASE_URL,
+        apiKey,
+        model,
+      });
+    case "gemini":
+      return createGeminiProvider({ apiKey, model });
+  }
+}
+
+/**
+ * Создает провайдер по переменным окружения
+ */
+function createProviderFromEnv(): VisionProvider {
+  const env = import.meta.env;
+  const id = resolveProviderId();
+  const baseUrls: Partial<Record<AIProviderId, string | undefined>> = {
+    openai: env.VITE_OPENAI_BASE_URL,
+    proxy: env.VITE_PROXY_URL,
+  };
+  const apiKeys: Partial<Record<AIProviderId, string | undefined>> = {
+    gemini: env.VITE_API_KEY,
+    openai: env.VITE_OPENAI_API_KEY,
+  };
+
+  return createVisionProvider({
+    id,
+    model: env.VITE_AI_MODEL?.trim() || undefined,
+    apiKey: apiKeys[id],
+    baseUrl: baseUrls[id]?.trim(),
+  });
+}
+
+let activeProvider: VisionProvider | null = null;
+
+/**
+ * Задает активный провайдер явно, минуя переменные VITE_* (используется сервером-прокси)
+ */
+export function setVisionProvider(provider: VisionProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Возвращает активный провайдер (создается один раз при первом обращении)
+ */
+export function getVisionProvider(): VisionProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+
+    const configError = activeProvider.getConfigurationError();
+    if (configError) {
+      console.error(`❌ ${configError}`);
+    }
+  }
+  return activeProvider;
+}
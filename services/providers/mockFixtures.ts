@@ -0,0 +1,137 @@
+import { RoomAnalysis } from "../../types";
+
+// ============================================================================
+// ФИКСТУРЫ ДЛЯ МОК-ПРОВАЙДЕРА
+// ============================================================================
+
+/** Заготовленные результаты анализа для разработки и демо без API ключа */
+export const MOCK_ANALYSES: RoomAnalysis[] = [
+  {
+    roomType: "Спальня",
+    clutterLevel: 62,
+    summary:
+      "Кровать и стул завалены одеждой, на прикроватной тумбе скопились мелочи. Основная мебель расставлена удачно.",
+    spaceUtilization: [
+      { name: "Мебель", value: 45 },
+      { name: "Свободное место", value: 30 },
+      { name: "Хлам", value: 25 },
+    ],
+    actionItems: [
+      {
+        id: "1",
+        title: "Разобрать одежду на стуле",
+        description: "Чистое убрать в шкаф, грязное отнести в корзину для белья.",
+        difficulty: "Easy",
+        category: "Organize",
+        estimatedMinutes: 15,
+        boundingBox: { x: 0.62, y: 0.38, width: 0.22, height: 0.4 },
+      },
+      {
+        id: "2",
+        title: "Выбросить упаковки и чеки",
+        description: "Соберите бумажный мусор с тумбы и подоконника в один пакет.",
+        difficulty: "Easy",
+        category: "Discard",
+        estimatedMinutes: 10,
+        boundingBox: { x: 0.08, y: 0.45, width: 0.18, height: 0.2 },
+      },
+      {
+        id: "3",
+        title: "Освободить пространство под кроватью",
+        description: "Достаньте все вещи, ненужное отдайте или выбросьте, остальное сложите в коробки.",
+        difficulty: "Hard",
+        category: "Organize",
+        estimatedMinutes: 60,
+        boundingBox: { x: 0.25, y: 0.7, width: 0.4, height: 0.22 },
+      },
+      {
+        id: "4",
+        title: "Купить корзину для белья",
+        description: "Корзина с крышкой у шкафа избавит стул от роли вешалки.",
+        difficulty: "Easy",
+        category: "Buy",
+        estimatedMinutes: 20,
+        purchase: {
+          itemType: "Корзина для белья с крышкой",
+          quantity: 1,
+          dimensions: "40×35×55 см",
+          priceRange: { min: 1200, max: 2500, currency: "RUB" },
+        },
+      },
+    ],
+    aestheticSuggestions: [
+      "Оставьте на тумбе только лампу и одну книгу",
+      "Добавьте плед в тон шторам, чтобы связать интерьер",
+    ],
+  },
+  {
+    roomType: "Рабочий стол",
+    clutterLevel: 38,
+    summary:
+      "Рабочая поверхность частично занята бумагами и проводами, но зона для работы остается свободной.",
+    spaceUtilization: [
+      { name: "Мебель", value: 40 },
+      { name: "Свободное место", value: 45 },
+      { name: "Хлам", value: 15 },
+    ],
+    actionItems: [
+      {
+        id: "1",
+        title: "Рассортировать бумаги",
+        description: "Разделите документы на «нужно», «архив» и «выбросить».",
+        difficulty: "Medium",
+        category: "Discard",
+        estimatedMinutes: 25,
+        boundingBox: { x: 0.15, y: 0.35, width: 0.3, height: 0.25 },
+      },
+      {
+        id: "2",
+        title: "Спрятать провода",
+        description: "Соберите кабели стяжками и проведите вдоль задней кромки стола.",
+        difficulty: "Medium",
+        category: "Organize",
+        estimatedMinutes: 20,
+        boundingBox: { x: 0.55, y: 0.55, width: 0.35, height: 0.3 },
+      },
+      {
+        id: "3",
+        title: "Купить органайзер для мелочей",
+        description: "Небольшой лоток с ячейками для ручек, стикеров и флешек.",
+        difficulty: "Easy",
+        category: "Buy",
+        estimatedMinutes: 15,
+        purchase: {
+          itemType: "Лоток-органайзер с ячейками",
+          quantity: 1,
+          dimensions: "30×20×5 см",
+          priceRange: { min: 400, max: 900, currency: "RUB" },
+        },
+      },
+    ],
+    aestheticSuggestions: [
+      "Поставьте живое растение в углу стола",
+      "Используйте единый цвет для канцелярии",
+    ],
+  },
+];
+
+/** Шаги, на которые мок разбивает задачу по просьбе «разбей задачу N» */
+export const MOCK_SPLIT_STEPS = [
+  { title: "Подготовить пакеты и коробки", difficulty: "Easy" },
+  { title: "Разобрать зону по частям", description: "По 10 минут на каждую часть." },
+  { title: "Вынести лишнее сразу", difficulty: "Easy" },
+];
+
+/** Ответ мока после выполнения инструмента */
+export const MOCK_TOOL_CONFIRMATION = "Готово, план обновлен. Изменение можно отменить.";
+
+/** Ответ мока на фото, приложенное в чате */
+export const MOCK_PHOTO_REPLY =
+  "На фото видно, что вещи лежат вперемешку — это продолжение **пункта 1**. Разделите содержимое на три кучки: оставить, переложить в другое место и выбросить.";
+
+/** Заготовленные ответы чата */
+export const MOCK_CHAT_REPLIES: string[] = [
+  "Начните с самого простого пункта плана — быстрый результат придаст мотивации.",
+  "Попробуйте правило «10 минут»: заведите таймер и разберите одну зону за это время.",
+  "Для хранения мелочей подойдут прозрачные контейнеры одного размера — так легче найти нужное.",
+];
@@ -0,0 +1,145 @@
+import {
+  ChatToolCall,
+  GeminiContent,
+  VisionAnalysisRequest,
+  VisionChatRequest,
+  VisionProvider,
+} from "../../types";
+import {
+  MOCK_ANALYSES,
+  MOCK_CHAT_REPLIES,
+  MOCK_PHOTO_REPLY,
+  MOCK_SPLIT_STEPS,
+  MOCK_TOOL_CONFIRMATION,
+} from "./mockFixtures";
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Искусственная задержка ответа, чтобы в демо были видны состояния загрузки */
+const MOCK_LATENCY_MS = 800;
+
+/** Пауза между словами ответа чата, имитирующая потоковую генерацию */
+const MOCK_STREAM_STEP_MS = 60;
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Простой детерминированный хеш строки (djb2).
+ * Одно и то же фото всегда дает одну и ту же фикстуру.
+ */
+function hashString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Имитация задержки сети; остановка запроса прерывает ожидание, как у настоящих провайдеров
+ */
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Распознает в последнем сообщении пользователя простые команды изменения плана:
+ * «убери пункт 2», «разбей задачу 3»
+ */
+function matchToolCall(lastContent: GeminiContent | undefined): ChatToolCall | null {
+  const text = lastContent?.parts.map((part) => part.text ?? "").join(" ") ?? "";
+
+  const remove = text.match(/(?:убери|удали)\s+(?:пункт|задачу)\s*№?\s*(\d+)/i);
+  if (remove) {
+    return { name: "remove_action_items", args: { numbers: [Number(remove[1])] } };
+  }
+
+  const split = text.match(/(?:разбей|раздели)\s+(?:пункт|задачу)\s*№?\s*(\d+)/i);
+  if (split) {
+    return {
+      name: "split_action_item",
+      args: { number: Number(split[1]), steps: MOCK_SPLIT_STEPS },
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// ПРОВАЙДЕР
+// ============================================================================
+
+/**
+ * Офлайн-провайдер: воспроизводит заготовленные ответы без обращения к сети
+ */
+export function createMockProvider(): VisionProvider {
+  return {
+    id: "mock",
+    model: "mock-fixtures",
+    supportsStructuredOutput: true,
+
+    getConfigurationError() {
+      return null;
+    },
+
+    async analyzeImage({ images, signal }: VisionAnalysisRequest) {
+      await delay(MOCK_LATENCY_MS, signal);
+      const fixture = MOCK_ANALYSES[hashString(images[0].data) % MOCK_ANALYSES.length];
+
+      // Для нескольких фото распределяем задачи по ним по кругу
+      if (images.length > 1) {
+        return JSON.stringify({
+          ...fixture,
+          actionItems: fixture.actionItems.map((item, index) => ({
+            ...item,
+            photoIndex: index % images.length,
+          })),
+        });
+      }
+      return JSON.stringify(fixture);
+    },
+
+    async *streamChat({ history, tools, signal }: VisionChatRequest) {
+      await delay(MOCK_LATENCY_MS / 2, signal);
+      const lastContent = history[history.length - 1];
+      const isToolResult = lastContent?.parts.some((part) => part.functionResponse);
+
+      const toolCall = tools?.length && !isToolResult ? matchToolCall(lastContent) : null;
+      if (toolCall) {
+        yield { type: "tool_call", call: toolCall };
+        return;
+      }
+
+      // Фото, приложенное в чате (первое сообщение истории — исходные фото комнаты)
+      const hasAttachedPhoto =
+        history.length > 1 && lastContent.parts.some((part) => part.inlineData);
+
+      // Выбор ответа зависит только от длины истории — ответы воспроизводимы
+      const reply = isToolResult
+        ? MOCK_TOOL_CONFIRMATION
+        : hasAttachedPhoto
+          ? MOCK_PHOTO_REPLY
+          : MOCK_CHAT_REPLIES[history.length % MOCK_CHAT_REPLIES.length];
+
+      // Отдаем ответ по словам (пробелы остаются в начале слов)
+      for (const word of reply.match(/\s*\S+/g) ?? []) {
+        if (signal?.aborted) return;
+        yield { type: "text", text: word };
+        await delay(MOCK_STREAM_STEP_MS);
+      }
+    },
+  };
+}
@@ -0,0 +1,267 @@
+import {
+  ChatToolCall,
+  ChatToolDeclaration,
+  GeminiContent,
+  VisionAnalysisRequest,
+  VisionChatRequest,
+  VisionProvider,
+} from "../../types";
+import { HttpStatusError, NetworkError } from "../errors";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface OpenAICompatibleProviderConfig {
+  /** Базовый URL API, например http://localhost:11434/v1 для Ollama */
+  baseUrl: string;
+  /** Ключ API (локальным серверам обычно не нужен) */
+  apiKey?: string;
+  model: string;
+}
+
+/** Часть сообщения в формате OpenAI Chat Completions */
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/** Изменения ответа в одном фрагменте потока */
+interface OpenAIStreamDelta {
+  content?: string | null;
+  /** Вызовы инструментов приходят по частям: аргументы дописываются по index */
+  tool_calls?: {
+    index: number;
+    id?: string;
+    function?: { name?: string; arguments?: string };
+  }[];
+}
+
+interface OpenAIChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+/** Фрагмент потокового ответа (stream: true) */
+interface OpenAIChatCompletionChunk {
+  choices?: { delta?: OpenAIStreamDelta }[];
+}
+
+// ============================================================================
+// ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Конвертирует историю из формата Gemini в сообщения OpenAI.
+ * Вызовы функций становятся tool_calls ассистента, ответы функций — сообщениями role: "tool".
+ */
+function toOpenAIMessages(history: GeminiContent[]): OpenAIMessage[] {
+  return history.flatMap((msg): OpenAIMessage[] => {
+    const toolResults = msg.parts.filter((part) => part.functionResponse);
+    if (toolResults.length > 0) {
+      return toolResults.map(({ functionResponse }) => ({
+        role: "tool",
+        tool_call_id: functionResponse!.id ?? functionResponse!.name,
+        content: JSON.stringify(functionResponse!.response),
+      }));
+    }
+
+    const toolCalls = msg.parts
+      .filter((part) => part.functionCall)
+      .map(({ functionCall }): OpenAIToolCall => ({
+        id: functionCall!.id ?? functionCall!.name,
+        type: "function",
+        function: { name: functionCall!.name, arguments: JSON.stringify(functionCall!.args) },
+      }));
+    if (toolCalls.length > 0) {
+      const text = msg.parts.map((part) => part.text ?? "").join("");
+      return [{ role: "assistant", content: text || null, tool_calls: toolCalls }];
+    }
+
+    return [
+      {
+        role: msg.role === "model" ? "assistant" : "user",
+        content: msg.parts.map((part): OpenAIContentPart => {
+          if (part.inlineData) {
+            return {
+              type: "image_url",
+              image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+            };
+          }
+          return { type: "text", text: part.text ?? "" };
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Извлекает изменения ответа из строки потока Server-Sent Events ("data: {...}")
+ * @returns изменения или null для служебных и пустых строк
+ */
+function parseStreamLine(line: string): OpenAIStreamDelta | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return null;
+
+  const payload = trimmed.slice("data:".length).trim();
+  if (payload === "[DONE]") return null;
+
+  try {
+    const chunk = JSON.parse(payload) as OpenAIChatCompletionChunk;
+    return chunk.choices?.[0]?.delta ?? null;
+  } catch {
+    console.warn("Не удалось разобрать фрагмент потока:", payload);
+    return null;
+  }
+}
+
+// ============================================================================
+// ПРОВАЙДЕР
+// ============================================================================
+
+/**
+ * Провайдер для любого сервера с OpenAI-совместимым API
+ * (Ollama, LM Studio, vLLM, llama.cpp server и т.д.)
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleProviderConfig
+): VisionProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  /**
+   * Отправляет запрос к /chat/completions и бросает ошибку при неуспешном статусе
+   */
+  const post = async (
+    messages: OpenAIMessage[],
+    {
+      stream = false,
+      tools,
+      signal,
+    }: { stream?: boolean; tools?: ChatToolDeclaration[]; signal?: AbortSignal } = {}
+  ): Promise<Response> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        stream,
+        tools: tools?.length
+          ? tools.map((tool) => ({ type: "function", function: tool }))
+          : undefined,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as OpenAIChatCompletionResponse;
+      throw new HttpStatusError(response.status, data.error?.message ?? response.statusText);
+    }
+
+    return response;
+  };
+
+  /**
+   * Выполняет запрос и возвращает текст первого ответа целиком
+   */
+  const complete = async (messages: OpenAIMessage[], signal?: AbortSignal): Promise<string> => {
+    const response = await post(messages, { signal });
+    const data = (await response.json().catch(() => ({}))) as OpenAIChatCompletionResponse;
+    return data.choices?.[0]?.message?.content ?? "";
+  };
+
+  return {
+    id: "openai",
+    model: config.model,
+    supportsStructuredOutput: false,
+
+    getConfigurationError() {
+      return config.baseUrl
+        ? null
+        : "Не указан адрес сервера. Задайте VITE_OPENAI_BASE_URL в файле .env.";
+    },
+
+    analyzeImage({ images, prompt, signal }: VisionAnalysisRequest) {
+      // Каждое фото подписываем номером, чтобы модель могла на него сослаться
+      const imageParts = images.flatMap((image, index): OpenAIContentPart[] => [
+        { type: "text", text: `Фото ${index}:` },
+        { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+      ]);
+
+      return complete(
+        [{ role: "user", content: [...imageParts, { type: "text", text: prompt }] }],
+        signal
+      );
+    },
+
+    async *streamChat({ history, systemInstruction, tools, signal }: VisionChatRequest) {
+      const response = await post(
+        [{ role: "system", content: systemInstruction }, ...toOpenAIMessages(history)],
+        { stream: true, tools, signal }
+      );
+
+      if (!response.body) {
+        throw new NetworkError("Сервер не поддерживает потоковые ответы.");
+      }
+
+      // Поток SSE: фрагменты приходят строками "data: {...}", строка может разорваться между чанками
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let finished = false;
+
+      // Вызовы инструментов собираются по index и отдаются целиком в конце ответа
+      const pendingCalls = new Map<number, { id?: string; name: string; arguments: string }>();
+
+      while (!finished) {
+        const { value, done } = await reader.read();
+        finished = done;
+
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split("\n");
+        buffer = done ? "" : (lines.pop() ?? "");
+
+        for (const line of lines) {
+          const delta = parseStreamLine(line);
+          if (!delta) continue;
+          if (delta.content) yield { type: "text", text: delta.content };
+
+          for (const callDelta of delta.tool_calls ?? []) {
+            const call = pendingCalls.get(callDelta.index) ?? { name: "", arguments: "" };
+            call.id ??= callDelta.id;
+            call.name += callDelta.function?.name ?? "";
+            call.arguments += callDelta.function?.arguments ?? "";
+            pendingCalls.set(callDelta.index, call);
+          }
+        }
+      }
+
+      for (const { id, name, arguments: rawArgs } of pendingCalls.values()) {
+        let args: ChatToolCall["args"] = {};
+        try {
+          args = rawArgs ? JSON.parse(rawArgs) : {};
+        } catch {
+          console.warn("Некорректные аргументы инструмента:", name, rawArgs);
+        }
+        yield { type: "tool_call", call: { id, name, args } };
+      }
+    },
+  };
+}
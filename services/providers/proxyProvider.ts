@@ -0,0 +1,107 @@
+import {
+  ProxyAnalyzeRequest,
+  ProxyAnalyzeResponse,
+  ProxyChatRequest,
+  ProxyError,
+  ProxyStreamEvent,
+  VisionAnalysisRequest,
+  VisionChatRequest,
+  VisionProvider,
+} from "../../types";
+import { HttpStatusError, NetworkError, fromProxyError } from "../errors";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface ProxyProviderConfig {
+  /** Адрес сервера-прокси; пустая строка — тот же адрес, с которого открыто приложение */
+  baseUrl: string;
+}
+
+// ============================================================================
+// ПРОВАЙДЕР
+// ============================================================================
+
+/**
+ * Провайдер, который обращается к модели через сервер-прокси (server/).
+ * Ключ API хранится на сервере и не попадает в сборку приложения.
+ * Анализ сервер выполняет целиком — сам строит промпт и проверяет ответ модели,
+ * поэтому промпт клиента не передается, а клиент не повторяет запрос сам
+ */
+export function createProxyProvider(config: ProxyProviderConfig): VisionProvider {
+  const apiUrl = `${config.baseUrl.replace(/\/+$/, "")}/api`;
+
+  /**
+   * Отправляет запрос к серверу и бросает ошибку сервиса при неуспешном статусе
+   */
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: ProxyError };
+      throw data.error
+        ? fromProxyError(data.error)
+        : new HttpStatusError(response.status, response.statusText);
+    }
+
+    return response;
+  };
+
+  return {
+    id: "proxy",
+    model: "proxy",
+    supportsStructuredOutput: true,
+
+    getConfigurationError() {
+      return null;
+    },
+
+    async analyzeImage({ images, currency, signal }: VisionAnalysisRequest) {
+      const request: ProxyAnalyzeRequest = { images, currency };
+      const response = await post("/analyze", request, signal);
+      const data = (await response.json()) as ProxyAnalyzeResponse;
+
+      // Анализ уже проверен сервером; клиент разбирает его как обычный ответ модели
+      return JSON.stringify(data.analysis);
+    },
+
+    async *streamChat({ history, context, tools, signal }: VisionChatRequest) {
+      // Инструкцию и объявления инструментов сервер собирает сам: передаем только контекст
+      const request: ProxyChatRequest = { history, context, useTools: !!tools };
+      const response = await post("/chat", request, signal);
+
+      if (!response.body) {
+        throw new NetworkError("Сервер не поддерживает потоковые ответы.");
+      }
+
+      // Поток NDJSON: по одному событию в строке, строка может разорваться между чанками
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let finished = false;
+
+      while (!finished) {
+        const { value, done } = await reader.read();
+        finished = done;
+
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split("\n");
+        buffer = done ? "" : (lines.pop() ?? "");
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const event = JSON.parse(line) as ProxyStreamEvent;
+          if (event.type === "error") throw fromProxyError(event.error);
+          yield event;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { AIServiceError, TimeoutError, toAIServiceError } from "./errors";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+export interface RetryOptions {
+  /** Всего попыток, включая первую */
+  attempts: number;
+  /** Базовая задержка перед второй попыткой */
+  baseDelayMs: number;
+  /** Верхняя граница задержки */
+  maxDelayMs: number;
+  /** Остановка: прерывает и ожидание между попытками */
+  signal?: AbortSignal;
+  /** Дополнительное условие повтора (например, ответ еще не начал приходить) */
+  shouldRetry?: (error: AIServiceError) => boolean;
+  /** Вызывается перед ожиданием очередной попытки (для логов и статуса в UI) */
+  onRetry?: (error: AIServiceError, attempt: number, delayMs: number) => void;
+}
+
+/** Сигнал запроса с тайм-аутом */
+export interface TimeoutScope {
+  signal: AbortSignal;
+  /** Перезапускает отсчет (для потоковых ответов — после каждого фрагмента) */
+  reset: () => void;
+  /** Снимает таймер; вызывать по завершении запроса */
+  clear: () => void;
+  /** Запрос прерван по тайм-ауту, а не пользователем */
+  readonly timedOut: boolean;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+// ============================================================================
+// ЗАДЕРЖКИ
+// ============================================================================
+
+/**
+ * Экспоненциальная задержка с полным джиттером: случайное значение от 0 до base·2^attempt.
+ * Случайность разводит повторы разных вкладок и пользователей во времени
+ * @param attempt - номер неудачной попытки, начиная с 0
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Пауза, которую можно прервать сигналом
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// ПОВТОРЫ И ТАЙМ-АУТЫ
+// ============================================================================
+
+/**
+ * Выполняет операцию, повторяя ее при временных ошибках (сеть, лимит, тайм-аут).
+ * Постоянные ошибки (ключ, регион, фильтры) и остановка пользователем не повторяются
+ * @param operation - запрос; получает номер попытки, начиная с 0
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs, signal, shouldRetry, onRetry } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const serviceError = toAIServiceError(error);
+      const canRetry = serviceError.retryable && (shouldRetry?.(serviceError) ?? true);
+      if (!canRetry || attempt >= attempts - 1) throw serviceError;
+
+      const delayMs = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(serviceError, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Сигнал, который срабатывает по тайм-ауту или вместе с внешним сигналом (остановка пользователем)
+ * @param timeoutMs - время ожидания ответа
+ * @param parent - внешний сигнал
+ */
+export function createTimeoutScope(timeoutMs: number, parent?: AbortSignal): TimeoutScope {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const start = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new TimeoutError());
+    }, timeoutMs);
+  };
+
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener("abort", onParentAbort, { once: true });
+    start();
+  }
+
+  return {
+    signal: controller.signal,
+    reset: () => {
+      if (!controller.signal.aborted) start();
+    },
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+    get timedOut() {
+      return timedOut;
+    },
+  };
+}
+
+/**
+ * Выполняет запрос с ограничением по времени.
+ * Ожидание прерывается по тайм-ауту, даже если провайдер не реагирует на сигнал
+ * @throws TimeoutError, если запрос не уложился в timeoutMs
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> {
+  const scope = createTimeoutScope(timeoutMs, parent);
+  const aborted = new Promise<never>((_, reject) => {
+    if (scope.signal.aborted) reject(scope.signal.reason);
+    scope.signal.addEventListener("abort", () => reject(scope.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([operation(scope.signal), aborted]);
+  } catch (error) {
+    throw scope.timedOut ? new TimeoutError(error) : error;
+  } finally {
+    scope.clear();
+  }
+}
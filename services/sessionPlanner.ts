@@ -0,0 +1,112 @@
+import { ActionItem } from "../types";
+import { getActionItemMinutes } from "./actionPlan";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Время, которое пользователь готов уделить уборке: «30 минут сегодня» */
+export interface TimeSlot {
+  id: string;
+  /** Когда: «Сегодня», «Суббота» */
+  label: string;
+  minutes: number;
+}
+
+/** Сессия уборки: задачи, которые помещаются в один слот времени */
+export interface CleaningSession {
+  slot: TimeSlot;
+  items: ActionItem[];
+  totalMinutes: number;
+}
+
+/** Результат планирования */
+export interface SessionPlan {
+  sessions: CleaningSession[];
+  /** Задачи, которым не хватило времени */
+  unscheduled: ActionItem[];
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/**
+ * Порядок категорий: сначала избавиться от лишнего, затем разложить оставшееся
+ * и только потом покупать — после разбора видно, что действительно нужно
+ */
+const CATEGORY_ORDER: Record<ActionItem["category"], number> = {
+  Discard: 0,
+  Organize: 1,
+  Buy: 2,
+};
+
+// ============================================================================
+// ПЛАНИРОВАНИЕ
+// ============================================================================
+
+/**
+ * Невыполненные задачи в порядке выполнения: по категориям, внутри категории — как в плане
+ */
+export function orderActionItemsForSessions(items: ActionItem[]): ActionItem[] {
+  return items
+    .filter((item) => !item.completed)
+    .map((item, index) => ({ item, index }))
+    .sort(
+      (a, b) =>
+        CATEGORY_ORDER[a.item.category] - CATEGORY_ORDER[b.item.category] || a.index - b.index
+    )
+    .map(({ item }) => item);
+}
+
+/**
+ * Раскладывает невыполненные задачи по слотам времени.
+ * Слоты заполняются по очереди в порядке Discard → Organize → Buy. Если задача не влезает
+ * в остаток слота, его можно добить задачами той же категории, но не следующей —
+ * иначе покупки оказались бы раньше разбора. Задача длиннее любого слота
+ * не блокирует остальные и сразу попадает в unscheduled
+ */
+export function planCleaningSessions(items: ActionItem[], slots: TimeSlot[]): SessionPlan {
+  const longestSlot = Math.max(0, ...slots.map((slot) => slot.minutes));
+  const ordered = orderActionItemsForSessions(items);
+
+  const unscheduled = ordered.filter((item) => getActionItemMinutes(item) > longestSlot);
+  let queue = ordered.filter((item) => getActionItemMinutes(item) <= longestSlot);
+
+  const sessions: CleaningSession[] = [];
+  for (const slot of slots) {
+    const picked: ActionItem[] = [];
+    let remaining = slot.minutes;
+    let blockedCategory: ActionItem["category"] | null = null;
+
+    for (const item of queue) {
+      if (blockedCategory && item.category !== blockedCategory) break;
+
+      const minutes = getActionItemMinutes(item);
+      if (minutes <= remaining) {
+        picked.push(item);
+        remaining -= minutes;
+      } else {
+        blockedCategory ??= item.category;
+      }
+    }
+
+    if (picked.length === 0) continue;
+    queue = queue.filter((item) => !picked.includes(item));
+    sessions.push({ slot, items: picked, totalMinutes: slot.minutes - remaining });
+  }
+
+  // Исходный порядок выполнения сохраняется и для задач, которым не хватило времени
+  const leftover = new Set([...unscheduled, ...queue]);
+  return { sessions, unscheduled: ordered.filter((item) => leftover.has(item)) };
+}
+
+/**
+ * Длительность в минутах для подписи: «45 мин», «1 ч 30 мин»
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} мин`;
+  return rest === 0 ? `${hours} ч` : `${hours} ч ${rest} мин`;
+}
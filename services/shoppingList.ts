@@ -0,0 +1,237 @@
+import { ActionItem, AnalysisSession, PriceRange } from "../types";
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/** Покупка из сохраненного анализа: задача категории Buy */
+export interface ShoppingEntry {
+  sessionId: string;
+  /** Название анализа, из которого покупка */
+  sessionLabel: string;
+  item: ActionItem;
+}
+
+/** Строка списка покупок: одна покупка или несколько одинаковых из разных анализов */
+export interface ShoppingListLine {
+  key: string;
+  itemType: string;
+  quantity: number;
+  /** Разные размеры объединенных покупок через «; » */
+  dimensions?: string;
+  /** Стоимость строки с учетом количества: по одной сумме на валюту */
+  prices: PriceRange[];
+  /** Сколько осталось купить: покупки строки, еще не отмеченные купленными */
+  remainingQuantity: number;
+  /** Стоимость некупленных покупок строки по валютам */
+  remainingPrices: PriceRange[];
+  entries: ShoppingEntry[];
+  /** Куплено: отмечены все покупки строки */
+  purchased: boolean;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Валюта цен, если VITE_CURRENCY не задана */
+export const DEFAULT_CURRENCY = "RUB";
+
+// ============================================================================
+// ВАЛЮТА
+// ============================================================================
+
+/**
+ * Код валюты ISO 4217: три латинские буквы
+ */
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === "string" && /^[A-Z]{3}$/.test(value);
+
+let shoppingCurrency: string | null = null;
+
+/**
+ * Валюта цен из VITE_CURRENCY (по умолчанию — RUB).
+ * Читается при первом вызове, а не при загрузке модуля: модуль используется и сервером-прокси
+ */
+export function getShoppingCurrency(): string {
+  if (shoppingCurrency) return shoppingCurrency;
+
+  const raw = import.meta.env.VITE_CURRENCY?.trim().toUpperCase();
+  if (!raw || isCurrencyCode(raw)) {
+    shoppingCurrency = raw || DEFAULT_CURRENCY;
+  } else {
+    console.error(`❌ Некорректный VITE_CURRENCY "${raw}". Используется ${DEFAULT_CURRENCY}.`);
+    shoppingCurrency = DEFAULT_CURRENCY;
+  }
+  return shoppingCurrency;
+}
+
+/**
+ * Цена для подписи: «1 500–2 500 ₽» или «990 ₽», если границы совпадают
+ */
+export function formatPriceRange({ min, max, currency }: PriceRange): string {
+  const money = new Intl.NumberFormat("ru-RU", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 2,
+    minimumFractionDigits: 0,
+  });
+  if (min === max) return money.format(max);
+
+  const number = new Intl.NumberFormat("ru-RU", { maximumFractionDigits: 2 });
+  return `${number.format(min)}–${money.format(max)}`;
+}
+
+// ============================================================================
+// СПИСОК ПОКУПОК
+// ============================================================================
+
+/**
+ * Ключ для поиска одинаковых покупок: регистр, «ё» и лишние пробелы не важны
+ */
+const normalizeItemType = (itemType: string): string =>
+  itemType.trim().toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+
+/**
+ * Складывает цены по валютам
+ */
+function sumPrices(prices: PriceRange[]): PriceRange[] {
+  const totals = new Map<string, PriceRange>();
+  for (const { min, max, currency } of prices) {
+    const total = totals.get(currency) ?? { min: 0, max: 0, currency };
+    totals.set(currency, { ...total, min: total.min + min, max: total.max + max });
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Тип, количество и цена покупки; у задач без деталей (старые анализы, добавленные вручную)
+ * тип — заголовок задачи, количество — одна штука
+ */
+const getPurchase = (item: ActionItem) => ({
+  itemType: item.purchase?.itemType || item.title,
+  quantity: item.purchase?.quantity ?? 1,
+  dimensions: item.purchase?.dimensions,
+  priceRange: item.purchase?.priceRange,
+});
+
+type Purchase = ReturnType<typeof getPurchase>;
+
+/**
+ * Общее количество покупок
+ */
+const sumQuantity = (purchases: Purchase[]): number =>
+  purchases.reduce((sum, purchase) => sum + purchase.quantity, 0);
+
+/**
+ * Стоимость покупок с учетом количества по валютам
+ */
+const sumPurchasePrices = (purchases: Purchase[]): PriceRange[] =>
+  sumPrices(
+    purchases.flatMap(({ priceRange, quantity }) =>
+      priceRange
+        ? [{ ...priceRange, min: priceRange.min * quantity, max: priceRange.max * quantity }]
+        : []
+    )
+  );
+
+/**
+ * Покупки из всех сохраненных анализов (в порядке сессий)
+ */
+export function collectShoppingEntries(sessions: AnalysisSession[]): ShoppingEntry[] {
+  return sessions.flatMap((session) =>
+    session.analysis.actionItems
+      .filter((item) => item.category === "Buy")
+      .map((item) => ({ sessionId: session.id, sessionLabel: session.label, item }))
+  );
+}
+
+/**
+ * Собирает строки списка покупок.
+ * При merge одинаковые по типу покупки из разных анализов сливаются в одну строку
+ * с общим количеством и стоимостью; остаток считается только по некупленным покупкам.
+ * Купленные строки идут в конце
+ */
+export function buildShoppingList(entries: ShoppingEntry[], merge: boolean): ShoppingListLine[] {
+  const groups = new Map<string, ShoppingEntry[]>();
+  for (const entry of entries) {
+    const key = merge
+      ? normalizeItemType(getPurchase(entry.item).itemType)
+      : `${entry.sessionId}:${entry.item.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  const lines = [...groups].map(([key, group]): ShoppingListLine => {
+    const purchases = group.map((entry) => getPurchase(entry.item));
+    const remaining = group
+      .filter((entry) => !entry.item.completed)
+      .map((entry) => getPurchase(entry.item));
+    const dimensions = [
+      ...new Set(purchases.map((purchase) => purchase.dimensions).filter(Boolean)),
+    ];
+
+    return {
+      key,
+      itemType: purchases[0].itemType,
+      quantity: sumQuantity(purchases),
+      dimensions: dimensions.length > 0 ? dimensions.join("; ") : undefined,
+      prices: sumPurchasePrices(purchases),
+      remainingQuantity: sumQuantity(remaining),
+      remainingPrices: sumPurchasePrices(remaining),
+      entries: group,
+      purchased: remaining.length === 0,
+    };
+  });
+
+  // sort стабильна: внутри купленных и некупленных порядок сохраняется
+  return lines.sort((a, b) => Number(a.purchased) - Number(b.purchased));
+}
+
+/**
+ * Сколько еще потратить: стоимость некупленных покупок по валютам.
+ * В объединенной строке уже купленные покупки не учитываются
+ */
+export function getShoppingTotals(lines: ShoppingListLine[]): PriceRange[] {
+  return sumPrices(lines.flatMap((line) => line.remainingPrices));
+}
+
+/**
+ * Строка куплена частично: часть объединенных покупок уже отмечена
+ */
+export const isPartiallyPurchased = (line: ShoppingListLine): boolean =>
+  !line.purchased && line.remainingQuantity < line.quantity;
+
+/**
+ * Список покупок в виде чек-листа Markdown
+ */
+export function buildShoppingListMarkdown(lines: ShoppingListLine[]): string {
+  const rows = ["# Список покупок", ""];
+
+  for (const line of lines) {
+    const details = [
+      line.dimensions,
+      line.prices.length > 0 ? line.prices.map(formatPriceRange).join(" + ") : null,
+    ].filter(Boolean);
+    const sources = [...new Set(line.entries.map((entry) => entry.sessionLabel))].join(", ");
+
+    rows.push(
+      `- [${line.purchased ? "x" : " "}] ${line.itemType} × ${line.quantity}` +
+        (details.length > 0 ? ` — ${details.join(", ")}` : "")
+    );
+    if (isPartiallyPurchased(line)) {
+      const remainingPrices = line.remainingPrices.map(formatPriceRange).join(" + ");
+      rows.push(
+        `  Осталось купить: ${line.remainingQuantity}` +
+          (remainingPrices ? ` — ${remainingPrices}` : "")
+      );
+    }
+    rows.push(`  Из плана: ${sources}`);
+  }
+
+  const totals = getShoppingTotals(lines);
+  if (totals.length > 0) {
+    rows.push("", `Осталось потратить: ${totals.map(formatPriceRange).join(" + ")}`);
+  }
+
+  return `${rows.join("\n")}\n`;
+}
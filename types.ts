@@ -3,8 +3,43 @@ export interface ActionItem {
   id: string;
   title: string;
   description: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard'; // Сложность задачи для сортировки или отображения бейджей
-  category: 'Discard' | 'Organize' | 'Buy'; // Категория для группировки в интерфейсе
+  difficulty: 'Easy' | 'Medium' | 'Hard'; // Сложность задачи; по ней оценивается время, если модель его не дала
+  category: 'Discard' | 'Organize' | 'Buy'; // Категория для группировки и порядка сессий уборки
+  estimatedMinutes?: number; // Оценка времени на задачу в минутах (нет у старых анализов)
+  photoIndex?: number; // Номер фото (с 0), к которому относится задача, при анализе нескольких фото
+  boundingBox?: BoundingBox; // Область на фото, где видна проблема
+  purchase?: PurchaseDetails; // Что купить: только у задач категории Buy (нет у старых анализов)
+  completed?: boolean; // Отмечена пользователем как выполненная (для покупок — куплено)
+  isCustom?: boolean; // Добавлена пользователем, а не моделью
+}
+
+// Детали покупки для списка покупок: без брендов и магазинов, только тип вещи
+export interface PurchaseDetails {
+  itemType: string; // Тип вещи в общем виде: «Корзина для белья с крышкой»
+  quantity: number; // Сколько штук нужно
+  dimensions?: string; // Примерные размеры: «40×30×50 см»
+  priceRange?: PriceRange; // Примерная цена за одну штуку
+}
+
+// Диапазон цены в заданной валюте
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string; // Код валюты ISO 4217: RUB, EUR, USD
+}
+
+// Прямоугольная область на фото в долях от 0 до 1 (начало — левый верхний угол)
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Изображение, подготовленное к отправке модели
+export interface UploadedImage {
+  data: string; // base64 без data URL префикса
+  mimeType: string; // Реальный формат: image/jpeg, image/webp и т.д.
 }
 
 // Полный результат анализа комнаты от AI
@@ -26,6 +61,80 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  status?: 'streaming' | 'stopped' | 'error'; // Состояние ответа модели; без статуса — ответ завершен
+  planChange?: PlanChange; // Изменение плана, сделанное ассистентом в этом ответе
+  image?: UploadedImage; // Фото, приложенное пользователем к сообщению
+  errorKind?: AIErrorKind; // Вид ошибки для ответа со статусом error
+}
+
+// Отдельная ветка переписки с ассистентом по одному анализу
+export interface ChatThread {
+  id: string;
+  title: string; // Название, которое видит пользователь: «Чат 1», «Покупки» и т.д.
+  messages: ChatMessage[]; // Переписка без приветствия и неудачных ответов
+  summary?: ChatSummary; // Краткое содержание ранних сообщений, если переписка не влезла в бюджет
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Краткое содержание начала переписки: модели передается вместо самих сообщений
+export interface ChatSummary {
+  text: string;
+  messageCount: number; // Сколько первых сообщений ветки заменяет
+}
+
+// Изменение плана действий из чата: снимки до и после для показа разницы и отмены
+export interface PlanChange {
+  before: ActionItem[];
+  after: ActionItem[];
+  undone?: boolean; // Пользователь отменил изменение
+}
+
+// Сохраненный результат анализа набора фото (кэш по хешу фото и версии промпта)
+export interface AnalysisCacheEntry {
+  key: string; // SHA-256 фото, версии промпта и модели
+  analysis: RoomAnalysis;
+  sessionId?: string; // Сессия истории с этим анализом: повторная загрузка фото открывает ее
+  createdAt: Date;
+  lastUsedAt: Date; // Для вытеснения давно не использованных записей
+}
+
+// Комната — группа анализов одного помещения для отслеживания прогресса
+export interface Room {
+  id: string;
+  name: string; // Например: "Детская", "Кабинет"
+  createdAt: Date;
+}
+
+// Сохраненная сессия анализа (история в IndexedDB)
+export interface AnalysisSession {
+  id: string;
+  label: string; // Название сессии, по умолчанию — тип комнаты
+  roomId?: string; // Комната, к которой относится анализ
+  createdAt: Date;
+  updatedAt: Date;
+  images: UploadedImage[]; // Исходные фото комнаты
+  thumbnail: string; // Уменьшенная копия (data URL) для списка истории
+  analysis: RoomAnalysis;
+  threads: ChatThread[]; // Ветки переписки с ассистентом
+  focusSessions?: FocusSessionRecord[]; // Пройденные сессии режима фокуса
+}
+
+// Сессия режима фокуса: что сделано и сколько времени заняла работа по таймеру
+export interface FocusSessionRecord {
+  startedAt: Date;
+  finishedAt: Date;
+  focusedSeconds: number; // Время работы по таймеру без пауз и перерывов
+  completedIds: string[]; // Задачи, отмеченные выполненными
+  skippedIds: string[]; // Задачи, пропущенные в этой сессии
+}
+
+// План, переданный по ссылке или файлом .tidy.json: открывается только для просмотра
+export interface SharedPlan {
+  version: number; // Версия формата: ссылки старых версий читаются после миграции
+  analysis: RoomAnalysis; // Анализ без привязки задач к фото
+  thumbnail?: string; // Миниатюра первого фото (data URL), если отправитель ее добавил
+  sharedAt: string; // Время создания ссылки в ISO 8601
 }
 
 // Типы для внутреннего использования SDK Gemini
@@ -35,9 +144,121 @@ export interface GeminiPart {
     mimeType: string;
     data: string;
   };
+  functionCall?: ChatToolCall;
+  functionResponse?: ChatToolResult;
 }
 
+// Вызов инструмента моделью
+export interface ChatToolCall {
+  id?: string; // Идентификатор вызова (OpenAI требует его в ответе инструмента)
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Результат выполнения инструмента, возвращаемый модели
+export interface ChatToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// Описание инструмента для модели: параметры — JSON Schema
+export interface ChatToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Фрагмент потокового ответа чата: текст или вызов инструмента
+export type ChatStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: ChatToolCall };
+
 export interface GeminiContent {
   role: 'user' | 'model';
   parts: GeminiPart[];
-}
\ No newline at end of file
+}
+
+// Идентификатор AI-провайдера (выбирается через VITE_AI_PROVIDER)
+export type AIProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+// Запрос на анализ комнаты по одному или нескольким фото
+export interface VisionAnalysisRequest {
+  images: UploadedImage[];
+  prompt: string;
+  currency?: string; // Валюта цен покупок: прокси передает ее серверу, который собирает промпт сам
+  signal?: AbortSignal; // Отмена запроса (тайм-аут или пользователь)
+}
+
+// Этап анализа комнаты: запрос к модели, повтор после сбоя, исправление ответа, проверка плана
+export type AnalysisStage = 'request' | 'retry' | 'repair' | 'validate';
+
+// Вид ошибки AI-сервиса: определяет подсказку пользователю и можно ли повторить запрос
+export type AIErrorKind =
+  | 'region'
+  | 'quota'
+  | 'auth'
+  | 'timeout'
+  | 'safety'
+  | 'parse'
+  | 'network'
+  | 'config'
+  | 'unknown';
+
+// Запрос к чату: история в формате Gemini, провайдер конвертирует ее сам
+export interface VisionChatRequest {
+  history: GeminiContent[];
+  systemInstruction: string;
+  context: ChatInstructionContext; // Из чего собрана systemInstruction (прокси отправляет серверу его)
+  tools?: ChatToolDeclaration[]; // Инструменты, которые модель может вызвать
+  signal?: AbortSignal; // Остановка генерации пользователем или по тайм-ауту
+}
+
+// Общий интерфейс AI-провайдера (Gemini, OpenAI-совместимый сервер, мок, сервер-прокси)
+export interface VisionProvider {
+  readonly id: AIProviderId;
+  readonly model: string;
+  /** Провайдер сам гарантирует форму JSON (responseSchema), промпт без описания формата */
+  readonly supportsStructuredOutput: boolean;
+  /** Текст ошибки конфигурации или null, если провайдер готов к работе */
+  getConfigurationError(): string | null;
+  /** Возвращает сырой текстовый ответ модели (ожидается JSON) */
+  analyzeImage(request: VisionAnalysisRequest): Promise<string>;
+  /** Возвращает ответ ассистента по частям по мере генерации (текст и вызовы инструментов) */
+  streamChat(request: VisionChatRequest): AsyncIterable<ChatStreamChunk>;
+}
+
+// Запрос анализа к серверу-прокси: промпт строит и ответ модели проверяет сервер
+export interface ProxyAnalyzeRequest {
+  images: UploadedImage[];
+  currency?: string; // Валюта цен покупок (по умолчанию — RUB)
+}
+
+// Ответ сервера-прокси на запрос анализа
+export interface ProxyAnalyzeResponse {
+  analysis: RoomAnalysis;
+}
+
+// Контекст, по которому собирается системная инструкция чата
+export interface ChatInstructionContext {
+  purpose: 'chat' | 'summary'; // Ответ ассистента или сжатие ранней переписки
+  analysis?: RoomAnalysis; // Анализ, который видит пользователь (только для chat)
+  canEditPlan?: boolean; // Ассистенту доступны инструменты изменения плана
+}
+
+// Запрос чата к серверу-прокси: инструкцию и инструменты сервер собирает сам по контексту
+export interface ProxyChatRequest {
+  history: GeminiContent[];
+  context: ChatInstructionContext;
+  useTools?: boolean; // Передать модели инструменты плана в этом раунде (только при canEditPlan)
+}
+
+// Ошибка AI-сервиса в ответе сервера-прокси
+export interface ProxyError {
+  kind: AIErrorKind;
+  message: string;
+  retryable: boolean;
+}
+
+// Строка потокового ответа чата от сервера-прокси (NDJSON): фрагмент ответа или ошибка
+export type ProxyStreamEvent = ChatStreamChunk | { type: 'error'; error: ProxyError };
@@ -2,6 +2,18 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_KEY: string;
+  /** gemini | openai | mock | proxy */
+  readonly VITE_AI_PROVIDER?: string;
+  /** Переопределяет модель выбранного провайдера */
+  readonly VITE_AI_MODEL?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  /** Адрес сервера-прокси (по умолчанию — тот же адрес, что у приложения) */
+  readonly VITE_PROXY_URL?: string;
+  /** Бюджет токенов на один запрос чата (по умолчанию 32000) */
+  readonly VITE_CHAT_TOKEN_BUDGET?: string;
+  /** Валюта цен в списке покупок, код ISO 4217 (по умолчанию RUB) */
+  readonly VITE_CURRENCY?: string;
 }
 
 interface ImportMeta {
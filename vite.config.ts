@@ -6,6 +6,10 @@ export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
+    // Запросы к серверу-прокси (npm run server) при VITE_AI_PROVIDER=proxy
+    proxy: {
+      '/api': `http://localhost:${process.env.PORT || 8787}`,
+    },
   },
   plugins: [react()],
   resolve: {